@@ -95,4 +95,57 @@ describe("CallbackServer", () => {
       expect(result.reason).toBe("timeout");
     }
   });
+
+  it("abort signal resolves with { ok: false, reason: 'cancelled' } and frees the port", async () => {
+    const rl = new RateLimiter();
+    rateLimiters.push(rl);
+    server = new CallbackServer({
+      maxBodySize: 1_048_576,
+      cors: CorsHandler,
+      rateLimiter: rl,
+      logger: mockLogger,
+    });
+    const port = await server.start();
+
+    const controller = new AbortController();
+    const callbackPromise = server.waitForCallback(5000, controller.signal);
+    controller.abort();
+
+    const result = await callbackPromise;
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.reason).toBe("cancelled");
+    }
+    await expect(fetch(`http://127.0.0.1:${port}`, { method: "POST", body: "{}" })).rejects.toThrow();
+  });
+
+  it("accepts configured extra origins and still rejects unknown ones", async () => {
+    const rl = new RateLimiter();
+    rateLimiters.push(rl);
+    server = new CallbackServer({
+      maxBodySize: 1_048_576,
+      cors: CorsHandler,
+      allowedOrigins: ["https://magic.example.com"],
+      rateLimiter: rl,
+      logger: mockLogger,
+    });
+    const port = await server.start();
+    const callbackPromise = server.waitForCallback(5000);
+
+    const rejected = await fetch(`http://127.0.0.1:${port}`, {
+      method: "POST",
+      headers: { Origin: "https://evil.example.com" },
+      body: "{}",
+    });
+    expect(rejected.status).toBe(403);
+
+    const accepted = await fetch(`http://127.0.0.1:${port}`, {
+      method: "POST",
+      headers: { Origin: "https://magic.example.com" },
+      body: "{}",
+    });
+    expect(accepted.status).toBe(200);
+    expect(accepted.headers.get("access-control-allow-origin")).toBe("https://magic.example.com");
+    expect((await callbackPromise).ok).toBe(true);
+  });
 });
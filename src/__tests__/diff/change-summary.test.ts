@@ -0,0 +1,49 @@
+import { describe, it, expect } from "bun:test";
+import { formatChangeSummary, summarizeChanges } from "../../diff/change-summary.js";
+
+const before = `import { Button } from "@/components/ui/button";
+
+interface HeroProps {
+  title: string;
+  subtitle?: string;
+}
+
+export function Hero({ title, subtitle }: HeroProps) {
+  return <h1 className="text-2xl font-bold">{title}</h1>;
+}
+`;
+
+const after = `import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { ArrowRight } from "lucide-react";
+
+interface HeroProps {
+  title: string;
+  size?: "sm" | "lg";
+}
+
+export function Hero({ title, size = "lg" }: HeroProps) {
+  return <h1 className={cn("text-4xl font-bold", size === "sm" && "text-xl")}>{title}</h1>;
+}
+`;
+
+describe("summarizeChanges", () => {
+  it("reports prop, import and className changes", () => {
+    expect(summarizeChanges(before, after)).toEqual({
+      props: { added: ["size"], removed: ["subtitle"] },
+      imports: { added: ["@/lib/utils", "lucide-react"], removed: [] },
+      classNames: { added: ["text-4xl", "text-xl"], removed: ["text-2xl"] },
+    });
+  });
+
+  it("formats the summary as bullets", () => {
+    expect(formatChangeSummary(summarizeChanges(before, after))).toBe(
+      [
+        "- Props: added size; removed subtitle",
+        "- Imports: added @/lib/utils, lucide-react",
+        "- Classes: added text-4xl, text-xl; removed text-2xl",
+      ].join("\n")
+    );
+    expect(formatChangeSummary(summarizeChanges(before, before))).toBe("- No prop, import or className changes");
+  });
+});
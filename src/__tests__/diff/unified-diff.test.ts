@@ -0,0 +1,55 @@
+import { describe, it, expect } from "bun:test";
+import { createUnifiedDiff, diffLines, diffStats } from "../../diff/unified-diff.js";
+
+describe("diffLines", () => {
+  it("reproduces both sides from the edit script", () => {
+    const a = ["import a", "const x = 1", "const y = 2", "export default x"];
+    const b = ["import a", "import b", "const x = 1", "const y = 3", "export default x"];
+    const ops = diffLines(a, b);
+
+    expect(ops.filter((op) => op.type !== "insert").map((op) => op.line)).toEqual(a);
+    expect(ops.filter((op) => op.type !== "delete").map((op) => op.line)).toEqual(b);
+    expect(ops.filter((op) => op.type !== "equal")).toEqual([
+      { type: "insert", line: "import b" },
+      { type: "delete", line: "const y = 2" },
+      { type: "insert", line: "const y = 3" },
+    ]);
+  });
+});
+
+describe("createUnifiedDiff", () => {
+  const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+  it("groups nearby changes into hunks with three lines of context", () => {
+    const newText = oldText.replace("line 2\n", "line two\n").replace("line 18\n", "");
+    const diff = createUnifiedDiff(oldText, newText, { oldPath: "src/a.tsx", newPath: "src/a.tsx" });
+
+    expect(diff).toBe(
+      [
+        "--- a/src/a.tsx",
+        "+++ b/src/a.tsx",
+        "@@ -1,5 +1,5 @@",
+        " line 1",
+        "-line 2",
+        "+line two",
+        " line 3",
+        " line 4",
+        " line 5",
+        "@@ -15,6 +15,5 @@",
+        " line 15",
+        " line 16",
+        " line 17",
+        "-line 18",
+        " line 19",
+        " line 20",
+        "",
+      ].join("\n")
+    );
+    expect(diffStats(diff)).toEqual({ added: 1, removed: 2 });
+  });
+
+  it("diffs a new file against /dev/null and returns nothing for equal text", () => {
+    expect(createUnifiedDiff("", "a\nb\n", { newPath: "new.tsx" })).toBe("--- /dev/null\n+++ b/new.tsx\n@@ -0,0 +1,2 @@\n+a\n+b\n");
+    expect(createUnifiedDiff(oldText, oldText, { oldPath: "a", newPath: "a" })).toBe("");
+  });
+});
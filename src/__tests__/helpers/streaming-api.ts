@@ -0,0 +1,68 @@
+import type { StreamFormat } from "../../http/stream.js";
+
+export interface StreamingApiOptions {
+  /** Format used when the client accepts a stream (default "sse") */
+  format?: StreamFormat;
+  /** Messages sent one by one; each is JSON-encoded as an SSE event or NDJSON line */
+  messages: unknown[];
+  /** Pause between messages */
+  delayMs?: number;
+  /** Close the connection after this many messages instead of finishing */
+  breakAfter?: number;
+}
+
+/**
+ * Local stand-in for the Magic API's streaming endpoints. Streams SSE or
+ * NDJSON when the request's Accept header allows it, and answers with the
+ * assembled `{ text }` JSON body otherwise.
+ */
+export function startStreamingApi(options: StreamingApiOptions) {
+  const requests: Array<{ path: string; accept: string | null }> = [];
+
+  const server = Bun.serve({
+    port: 0,
+    hostname: "127.0.0.1",
+    fetch(req) {
+      const accept = req.headers.get("accept");
+      requests.push({ path: new URL(req.url).pathname, accept });
+
+      const format = options.format ?? "sse";
+      const streams = accept?.includes(format === "sse" ? "text/event-stream" : "application/x-ndjson");
+
+      if (!streams) {
+        const text = options.messages
+          .map((message) => (message as { delta?: string }).delta ?? "")
+          .join("");
+        return Response.json({ text });
+      }
+
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          for (const [index, message] of options.messages.entries()) {
+            if (options.breakAfter !== undefined && index >= options.breakAfter) {
+              // Drop the connection abruptly, like a proxy or load balancer resetting it
+              server.stop(true);
+              return;
+            }
+            const payload = typeof message === "string" ? message : JSON.stringify(message);
+            controller.enqueue(encoder.encode(format === "sse" ? `data: ${payload}\n\n` : `${payload}\n`));
+            if (options.delayMs) await Bun.sleep(options.delayMs);
+          }
+          if (format === "sse") controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        },
+      });
+
+      return new Response(stream, {
+        headers: { "Content-Type": format === "sse" ? "text/event-stream" : "application/x-ndjson" },
+      });
+    },
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    requests,
+    stop: () => server.stop(true),
+  };
+}
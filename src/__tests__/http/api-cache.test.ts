@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { ApiCache } from "../../http/api-cache.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  getLevel: () => "debug" as const,
+} as any;
+
+function createCache(overrides: Partial<ConstructorParameters<typeof ApiCache>[0]> = {}) {
+  return new ApiCache({ ttlMs: 60_000, maxEntries: 10, maxBytes: 10_000, logger: mockLogger, ...overrides });
+}
+
+describe("ApiCache", () => {
+  let tempDir: string | null = null;
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("key() ignores body key order and surrounding whitespace", () => {
+    const a = ApiCache.key("POST", "/api/fetch-ui", { message: "hi", searchQuery: " pricing table " });
+    const b = ApiCache.key("POST", "/api/fetch-ui", { searchQuery: "pricing table", message: "hi" });
+    const c = ApiCache.key("POST", "/api/refine-ui", { searchQuery: "pricing table", message: "hi" });
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+
+  it("tracks hits and misses", () => {
+    const cache = createCache();
+    expect(cache.get("k")).toBeUndefined();
+    cache.set("k", { text: "value" });
+    expect(cache.get<{ text: string }>("k")?.text).toBe("value");
+
+    const stats = cache.getStats();
+    expect(stats.hits).toBe(1);
+    expect(stats.misses).toBe(1);
+    expect(stats.hitRate).toBe(0.5);
+    expect(stats.entries).toBe(1);
+  });
+
+  it("expires entries after the TTL", async () => {
+    const cache = createCache({ ttlMs: 10 });
+    cache.set("k", "value");
+    await Bun.sleep(20);
+    expect(cache.get("k")).toBeUndefined();
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it("evicts the least recently used entry when maxEntries is exceeded", () => {
+    const cache = createCache({ maxEntries: 2 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.get<number>("a")).toBe(1);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it("evicts entries to stay under maxBytes", () => {
+    const cache = createCache({ maxBytes: 30 });
+    cache.set("a", "x".repeat(10));
+    cache.set("b", "y".repeat(10));
+    cache.set("c", "z".repeat(10));
+
+    expect(cache.getStats().bytes).toBeLessThanOrEqual(30);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.get<string>("c")).toBe("z".repeat(10));
+  });
+
+  it("persists entries to disk and reloads them", () => {
+    tempDir = mkdtempSync(path.join(tmpdir(), "magic-cache-"));
+    const filePath = path.join(tempDir, "nested", "cache.json");
+
+    const first = createCache({ filePath });
+    first.set("k", { text: "persisted" });
+    first.save();
+
+    const second = createCache({ filePath });
+    expect(second.get<{ text: string }>("k")?.text).toBe("persisted");
+    expect(second.getStats().persistent).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import { CircuitBreaker } from "../../http/circuit-breaker.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  getLevel: () => "debug" as const,
+} as any;
+
+function createBreaker(cooldownMs = 60_000) {
+  return new CircuitBreaker({ failureThreshold: 3, cooldownMs, logger: mockLogger });
+}
+
+describe("CircuitBreaker", () => {
+  it("opens after failureThreshold consecutive failures", () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getRetryAfterMs()).toBeGreaterThan(0);
+  });
+
+  it("resets the failure count on success", () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("allows a single trial request after the cool-down", async () => {
+    const breaker = createBreaker(10);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    await Bun.sleep(20);
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe("half-open");
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it("closes when the trial succeeds and re-opens when it fails", async () => {
+    const breaker = createBreaker(10);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    await Bun.sleep(20);
+
+    breaker.canRequest();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+
+    await Bun.sleep(20);
+    breaker.canRequest();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.getSnapshot()).toEqual({ state: "closed", consecutiveFailures: 0, failureThreshold: 3 });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { HttpClient } from "../../http/client.js";
+import { VerifiedKeys, validateApiKey } from "../../http/key-validator.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  getLevel: () => "debug" as const,
+} as any;
+
+function createClient(baseUrl: string, apiKey: string) {
+  return new HttpClient({
+    baseUrl,
+    apiKey,
+    timeout: 2000,
+    retry: { maxRetries: 0, baseDelay: 1, maxDelay: 5, jitterMax: 0 },
+    logger: mockLogger,
+  });
+}
+
+describe("validateApiKey", () => {
+  let server: ReturnType<typeof Bun.serve> | null = null;
+
+  afterEach(() => {
+    server?.stop(true);
+    server = null;
+  });
+
+  let generationRequests = 0;
+
+  function startApi() {
+    generationRequests = 0;
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      // Like the real API: /health answers anyone, the tool endpoints need a valid key
+      fetch: (req) => {
+        if (new URL(req.url).pathname === "/health") return Response.json({ status: "ok" });
+        generationRequests++;
+        return req.headers.get("authorization") === "Bearer good-key"
+          ? Response.json({ text: "components" })
+          : Response.json({ error: "Invalid API key" }, { status: 401 });
+      },
+    });
+    return `http://127.0.0.1:${server.port}`;
+  }
+
+  it("accepts a key the API accepts", async () => {
+    expect((await validateApiKey(createClient(startApi(), "good-key"))).status).toBe("valid");
+  });
+
+  it("reports a rejected key with a clear message", async () => {
+    const result = await validateApiKey(createClient(startApi(), "expired-key"));
+    expect(result.status).toBe("invalid");
+    if (result.status === "invalid") {
+      expect(result.message).toContain("rejected the API key (HTTP 401)");
+      expect(result.message).toContain("magic login");
+    }
+  });
+
+  it("leaves the status unknown when the API cannot be reached", async () => {
+    const result = await validateApiKey(createClient("http://127.0.0.1:1", "good-key"));
+    expect(result.status).toBe("unknown");
+  });
+
+  it("checks an accepted key only once per day and API URL", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "magic-verified-"));
+    try {
+      const verifiedKeys = new VerifiedKeys(dir);
+      const baseUrl = startApi();
+
+      expect((await validateApiKey(createClient(baseUrl, "good-key"), { verifiedKeys })).status).toBe("valid");
+      expect((await validateApiKey(createClient(baseUrl, "good-key"), { verifiedKeys })).status).toBe("valid");
+      expect(generationRequests).toBe(1);
+
+      // Rejected keys are never remembered, and another key is checked on its own
+      expect((await validateApiKey(createClient(baseUrl, "expired-key"), { verifiedKeys })).status).toBe("invalid");
+      expect((await validateApiKey(createClient(baseUrl, "expired-key"), { verifiedKeys })).status).toBe("invalid");
+      expect(generationRequests).toBe(3);
+
+      const checkedAt = verifiedKeys.checkedAt(createClient(baseUrl, "good-key").getKeyScope());
+      expect(checkedAt).not.toBeNull();
+      expect(verifiedKeys.checkedAt(createClient(baseUrl, "good-key").getKeyScope(), checkedAt! + 25 * 60 * 60 * 1000)).toBeNull();
+      expect(verifiedKeys.checkedAt(createClient("http://127.0.0.1:1", "good-key").getKeyScope())).toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
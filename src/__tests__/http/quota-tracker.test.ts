@@ -0,0 +1,62 @@
+import { describe, it, expect } from "bun:test";
+import { QuotaTracker } from "../../http/quota-tracker.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  getLevel: () => "debug" as const,
+} as any;
+
+const KEY = "sk-test-key-1234";
+
+describe("QuotaTracker", () => {
+  it("counts requests per key even without quota headers", () => {
+    const tracker = new QuotaTracker({ logger: mockLogger });
+    tracker.record(KEY, new Headers());
+    tracker.record(KEY, new Headers());
+    tracker.record("sk-other-key-9999", new Headers());
+
+    expect(tracker.getSnapshot(KEY)).toEqual({ key: "…1234", requests: 2 });
+    expect(tracker.getSnapshot("sk-other-key-9999").requests).toBe(1);
+    expect(tracker.getWarning(KEY)).toBeNull();
+  });
+
+  it("parses X-RateLimit headers", () => {
+    const tracker = new QuotaTracker({ logger: mockLogger });
+    tracker.record(KEY, new Headers({ "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": "42", "X-RateLimit-Reset": "60" }));
+
+    const snapshot = tracker.getSnapshot(KEY);
+    expect(snapshot.limit).toBe(100);
+    expect(snapshot.remaining).toBe(42);
+    expect(Date.parse(snapshot.resetAt!)).toBeGreaterThan(Date.now() + 50_000);
+  });
+
+  it("derives remaining from limit and used, and accepts RateLimit parameters", () => {
+    const tracker = new QuotaTracker({ logger: mockLogger });
+    tracker.record(KEY, new Headers({ "RateLimit-Limit": "50;w=3600", "X-RateLimit-Used": "45" }));
+
+    expect(tracker.getSnapshot(KEY)).toMatchObject({ limit: 50, remaining: 5 });
+  });
+
+  it("warns once the remaining quota drops below the warning ratio", () => {
+    const warnings: string[] = [];
+    const tracker = new QuotaTracker({ logger: { ...mockLogger, warn: (msg: string) => warnings.push(msg) } });
+
+    tracker.record(KEY, new Headers({ "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": "20" }));
+    expect(tracker.getWarning(KEY)).toBeNull();
+
+    tracker.record(KEY, new Headers({ "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": "8" }));
+    tracker.record(KEY, new Headers({ "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": "7" }));
+    expect(tracker.getWarning(KEY)).toContain("7 of 100 requests remaining");
+    expect(warnings).toHaveLength(1);
+  });
+
+  it("stops warning once the quota window has reset", () => {
+    const tracker = new QuotaTracker({ logger: mockLogger });
+    tracker.record(KEY, new Headers({ "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "0" }));
+
+    expect(tracker.getWarning(KEY)).toBeNull();
+  });
+});
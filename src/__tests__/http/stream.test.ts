@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { z } from "zod";
+import { HttpClient } from "../../http/client.js";
+import { StreamAssembler, readStreamMessages, streamFormat } from "../../http/stream.js";
+import { startStreamingApi } from "../helpers/streaming-api.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  getLevel: () => "debug" as const,
+} as any;
+
+function streamOf(...parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(encoder.encode(part));
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>, format: "sse" | "ndjson") {
+  const messages: unknown[] = [];
+  for await (const message of readStreamMessages(stream, format)) messages.push(message);
+  return messages;
+}
+
+function createClient(baseUrl: string, timeout = 5000) {
+  return new HttpClient({
+    baseUrl,
+    apiKey: "test",
+    timeout,
+    retry: { maxRetries: 2, baseDelay: 1, maxDelay: 5, jitterMax: 0 },
+    logger: mockLogger,
+  });
+}
+
+describe("stream parsing", () => {
+  it("detects streaming content types", () => {
+    expect(streamFormat("text/event-stream; charset=utf-8")).toBe("sse");
+    expect(streamFormat("application/x-ndjson")).toBe("ndjson");
+    expect(streamFormat("application/json")).toBeNull();
+    expect(streamFormat(null)).toBeNull();
+  });
+
+  it("parses SSE events split across chunks, ignoring comments", async () => {
+    const messages = await collect(
+      streamOf(': keep-alive\n\ndata: {"del', 'ta":"a"}\r\n\r\nevent: update\ndata: {"delta":"b"}\n\ndata: [DONE]\n\ndata: {"delta":"c"}\n\n'),
+      "sse"
+    );
+    expect(messages).toEqual([{ delta: "a" }, { delta: "b" }]);
+  });
+
+  it("parses NDJSON lines including an unterminated last line", async () => {
+    const messages = await collect(streamOf('{"delta":"a"}\n\n{"del', 'ta":"b"}\n{"done":true}'), "ndjson");
+    expect(messages).toEqual([{ delta: "a" }, { delta: "b" }, { done: true }]);
+  });
+
+  it("assembles deltas, full-text snapshots and extra fields", () => {
+    const assembler = new StreamAssembler();
+    expect(assembler.push({ delta: "<But" })).toBe("<But");
+    expect(assembler.push({ text: "<Button" })).toBe("ton");
+    expect(assembler.push({ delta: " />", model: "v2" })).toBe(" />");
+    expect(assembler.getResult()).toEqual({ model: "v2", text: "<Button />" });
+  });
+});
+
+describe("HttpClient streaming", () => {
+  let api: ReturnType<typeof startStreamingApi> | null = null;
+
+  afterEach(() => {
+    api?.stop();
+    api = null;
+  });
+
+  for (const format of ["sse", "ndjson"] as const) {
+    it(`forwards ${format} chunks and resolves with the assembled body`, async () => {
+      api = startStreamingApi({ format, messages: [{ delta: "<Button" }, { delta: " />" }], delayMs: 5 });
+      const client = createClient(api.url);
+      const chunks: Array<[string, string]> = [];
+
+      const response = await client.post(
+        "/api/fetch-ui",
+        { searchQuery: "button" },
+        { schema: z.object({ text: z.string() }), onChunk: (delta, text) => chunks.push([delta, text]) }
+      );
+
+      expect(response.ok && response.data.text).toBe("<Button />");
+      expect(chunks).toEqual([
+        ["<Button", "<Button"],
+        [" />", "<Button />"],
+      ]);
+    });
+  }
+
+  it("keeps plain JSON responses working for callers that do not stream", async () => {
+    api = startStreamingApi({ messages: [{ delta: "<Card" }, { delta: " />" }] });
+    const client = createClient(api.url);
+
+    const response = await client.post<{ text: string }>("/api/fetch-ui", { searchQuery: "card" });
+
+    expect(response.ok && response.data.text).toBe("<Card />");
+    expect(api.requests[0].accept).not.toContain("text/event-stream");
+  });
+
+  it("does not retry a stream that breaks off mid-way", async () => {
+    api = startStreamingApi({ messages: [{ delta: "a" }, { delta: "b" }, { delta: "c" }], breakAfter: 1, delayMs: 20 });
+    const client = createClient(api.url);
+    const chunks: string[] = [];
+
+    const response = await client.post("/api/refine-ui", {}, { onChunk: (delta) => chunks.push(delta) });
+
+    expect(!response.ok && response.error.kind).toBe("network");
+    expect(chunks).toEqual(["a"]);
+    expect(api.requests).toHaveLength(1);
+  });
+
+  it("reports a malformed stream message as invalid_json", async () => {
+    api = startStreamingApi({ messages: [{ delta: "a" }, "{not json"] });
+    const client = createClient(api.url);
+
+    const response = await client.post("/api/fetch-ui", {}, { onChunk: () => {} });
+
+    expect(!response.ok && response.error.kind).toBe("invalid_json");
+    expect(!response.ok && response.error.excerpt).toBe("{not json");
+  });
+
+  it("applies the timeout to gaps between chunks rather than the whole stream", async () => {
+    api = startStreamingApi({ messages: Array.from({ length: 6 }, () => ({ delta: "x" })), delayMs: 30 });
+    const client = createClient(api.url, 100);
+
+    const response = await client.post<{ text: string }>("/api/fetch-ui", {}, { onChunk: () => {} });
+
+    expect(response.ok && response.data.text).toBe("xxxxxx");
+  });
+});
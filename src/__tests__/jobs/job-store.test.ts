@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { JobStore } from "../../jobs/job-store.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  getLevel: () => "debug" as const,
+} as any;
+
+describe("JobStore", () => {
+  let store: JobStore;
+
+  afterEach(() => {
+    store?.dispose();
+  });
+
+  it("creates running jobs with a unique id", () => {
+    store = new JobStore({ ttlMs: 60000, logger: mockLogger });
+    const a = store.create("magic_component_builder");
+    const b = store.create("magic_component_builder");
+    expect(a.id).not.toBe(b.id);
+    expect(a.status).toBe("running");
+    expect(store.get(a.id)).toBe(a);
+  });
+
+  it("only shows and cancels a job for the session that started it", () => {
+    store = new JobStore({ ttlMs: 60000, logger: mockLogger });
+    const job = store.create("magic_component_builder", "session-a");
+
+    expect(store.get(job.id, "session-b")).toBeUndefined();
+    expect(store.get(job.id)).toBeUndefined();
+    expect(store.cancel(job.id, "session-b")).toBe(false);
+    expect(job.status).toBe("running");
+
+    expect(store.get(job.id, "session-a")).toBe(job);
+    expect(store.cancel(job.id, "session-a")).toBe(true);
+  });
+
+  it("finish() stores the result and marks the job completed or failed", () => {
+    store = new JobStore({ ttlMs: 60000, logger: mockLogger });
+    const ok = store.create("tool");
+    const failed = store.create("tool");
+
+    store.finish(ok.id, { content: [{ type: "text", text: "done" }] });
+    store.finish(failed.id, { content: [{ type: "text", text: "{}" }], isError: true });
+
+    expect(store.get(ok.id)?.status).toBe("completed");
+    expect(store.get(ok.id)?.result?.content[0].text).toBe("done");
+    expect(store.get(failed.id)?.status).toBe("failed");
+  });
+
+  it("cancel() aborts the job, cancels its callback server and ignores later results", () => {
+    store = new JobStore({ ttlMs: 60000, logger: mockLogger });
+    const job = store.create("tool");
+    let callbackCancelled = false;
+    store.attachCallbackServer(job.id, { cancel: () => { callbackCancelled = true; } } as any);
+
+    expect(store.cancel(job.id)).toBe(true);
+    store.finish(job.id, { content: [{ type: "text", text: "late" }] });
+
+    expect(job.controller.signal.aborted).toBe(true);
+    expect(callbackCancelled).toBe(true);
+    expect(store.get(job.id)?.status).toBe("cancelled");
+    expect(store.get(job.id)?.result).toBeUndefined();
+    expect(store.cancel(job.id)).toBe(false);
+  });
+
+  it("expires jobs after the TTL and aborts running ones", async () => {
+    store = new JobStore({ ttlMs: 20, logger: mockLogger });
+    const job = store.create("tool");
+
+    await Bun.sleep(30);
+
+    expect(store.get(job.id)).toBeUndefined();
+    expect(job.controller.signal.aborted).toBe(true);
+    expect(store.getJobCount()).toBe(0);
+  });
+});
@@ -58,4 +58,11 @@ describe("Logger", () => {
     const logger = new Logger("warn");
     expect(logger.getLevel()).toBe("warn");
   });
+
+  it("child() appends its prefix and keeps the parent's level", () => {
+    const logger = new Logger("info", "magic").child("a1b2c3d4");
+    logger.debug("hidden");
+    logger.info("visible");
+    expect(captured).toEqual(["[magic][a1b2c3d4][INFO] visible\n"]);
+  });
 });
@@ -0,0 +1,222 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { HttpClient } from "../../http/client.js";
+import { FetchUiTool } from "../../tools/fetch-ui.tool.js";
+import { MockMagicServer } from "../../mock/mock-server.js";
+import { DEFAULT_FIXTURES, createRecordedFixture, findFixture, type Fixture } from "../../mock/fixtures.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => mockLogger,
+  getLevel: () => "debug" as const,
+} as any;
+
+const API_KEY = "sk_live_1234567890abcdef";
+
+function fixture(path: string, text: string, match?: Record<string, string>): Fixture {
+  return { request: { method: "POST", path, ...(match && { match }) }, response: { status: 200, body: { text } } };
+}
+
+function createClient(port: number) {
+  return new HttpClient({
+    baseUrl: `http://127.0.0.1:${port}`,
+    apiKey: API_KEY,
+    timeout: 5000,
+    retry: { maxRetries: 0, baseDelay: 1, maxDelay: 5, jitterMax: 0 },
+    logger: mockLogger,
+  });
+}
+
+describe("fixtures", () => {
+  it("prefers the fixture matching the most body fields, then the earliest", () => {
+    const fixtures = [
+      fixture("/api/fetch-ui", "catch-all"),
+      fixture("/api/fetch-ui", "button", { searchQuery: "button" }),
+      fixture("/api/fetch-ui", "exact", { searchQuery: "button", message: "a red button" }),
+      fixture("/api/fetch-ui", "second button", { searchQuery: "button" }),
+    ];
+
+    expect(findFixture(fixtures, "POST", "/api/fetch-ui", { searchQuery: " Button ", message: "A red button" })?.response.body).toEqual({ text: "exact" });
+    expect(findFixture(fixtures, "POST", "/api/fetch-ui", { searchQuery: "button", message: "other" })?.response.body).toEqual({ text: "button" });
+    expect(findFixture(fixtures, "POST", "/api/fetch-ui", { searchQuery: "card" })?.response.body).toEqual({ text: "catch-all" });
+    expect(findFixture(fixtures, "POST", "/api/refine-ui", {})).toBeNull();
+  });
+
+  it("ships a default fixture for every endpoint", () => {
+    expect(findFixture(DEFAULT_FIXTURES, "GET", "/health", undefined)).not.toBeNull();
+    expect(findFixture(DEFAULT_FIXTURES, "POST", "/api/fetch-ui", {})).not.toBeNull();
+    expect(findFixture(DEFAULT_FIXTURES, "POST", "/api/refine-ui", {})).not.toBeNull();
+  });
+
+  it("strips secrets and private request fields from recorded fixtures", () => {
+    const recorded = createRecordedFixture(
+      "POST",
+      "/api/refine-ui",
+      { userMessage: `make it blue, my key is ${API_KEY}`, fileContent: "const secret = 1" },
+      {
+        status: 200,
+        headers: new Headers({ "content-type": "application/json", "set-cookie": "session=abc", "x-ratelimit-remaining": "9" }),
+        body: { text: "<Card />", token: "tok_abcdef", echo: `Bearer ${API_KEY}` },
+      },
+      [API_KEY]
+    );
+
+    const serialized = JSON.stringify(recorded);
+    expect(serialized).not.toContain(API_KEY);
+    expect(serialized).not.toContain("tok_abcdef");
+    expect(serialized).not.toContain("fileContent");
+    expect(serialized).not.toContain("session=abc");
+    expect(recorded.request.match).toEqual({ userMessage: "make it blue, my key is [REDACTED]" });
+    expect(recorded.response.headers).toEqual({ "content-type": "application/json", "x-ratelimit-remaining": "9" });
+    expect((recorded.response.body as any).text).toBe("<Card />");
+  });
+});
+
+describe("MockMagicServer", () => {
+  let server: MockMagicServer | null = null;
+  let upstream: ReturnType<typeof Bun.serve> | null = null;
+  let dir: string | null = null;
+
+  afterEach(() => {
+    server?.stop();
+    upstream?.stop(true);
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    server = null;
+    upstream = null;
+    dir = null;
+  });
+
+  it("runs a tool end to end against the built-in fixtures without a real API key", async () => {
+    server = new MockMagicServer({ host: "127.0.0.1", port: 0, logger: mockLogger });
+    const port = await server.start();
+    const tool = new FetchUiTool({ httpClient: createClient(port), logger: mockLogger });
+
+    const result = await tool.execute({ message: "a button", searchQuery: "button" });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain("mock fixture");
+  });
+
+  it("serves fixtures from a directory ahead of the defaults and validates requests", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "magic-mock-"));
+    writeFileSync(path.join(dir, "cards.json"), JSON.stringify([fixture("/api/fetch-ui", "<Card />", { searchQuery: "card" })]));
+    server = new MockMagicServer({ host: "127.0.0.1", port: 0, fixturesDir: dir, logger: mockLogger });
+    const port = await server.start();
+    const client = createClient(port);
+
+    const card = await client.post<{ text: string }>("/api/fetch-ui", { message: "", searchQuery: "card" });
+    expect(card.ok && card.data.text).toBe("<Card />");
+
+    const fallback = await client.post<{ text: string }>("/api/fetch-ui", { message: "", searchQuery: "table" });
+    expect(fallback.ok && fallback.data.text).toContain("mock fixture");
+
+    const unauthorized = await fetch(`http://127.0.0.1:${port}/api/fetch-ui`, { method: "POST", body: "{}" });
+    expect(unauthorized.status).toBe(401);
+
+    const unknown = await fetch(`http://127.0.0.1:${port}/api/unknown`);
+    expect(unknown.status).toBe(404);
+  });
+
+  it("records upstream responses with secrets stripped and replays them", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "magic-mock-"));
+    let upstreamAuth: string | null = null;
+    upstream = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: async (req) => {
+        upstreamAuth = req.headers.get("authorization");
+        const body = (await req.json()) as { searchQuery: string };
+        return Response.json({ text: `<Recorded query="${body.searchQuery}" />`, apiKey: API_KEY });
+      },
+    });
+
+    server = new MockMagicServer({
+      host: "127.0.0.1",
+      port: 0,
+      fixturesDir: dir,
+      recordFrom: `http://127.0.0.1:${upstream.port}`,
+      logger: mockLogger,
+    });
+    const port = await server.start();
+
+    const recorded = await createClient(port).post<{ text: string }>("/api/fetch-ui", { message: "m", searchQuery: "pricing" });
+    expect(recorded.ok && recorded.data.text).toBe('<Recorded query="pricing" />');
+    expect(upstreamAuth as string | null).toBe(`Bearer ${API_KEY}`);
+
+    const files = readdirSync(dir);
+    expect(files).toHaveLength(1);
+    const saved = readFileSync(path.join(dir, files[0]), "utf-8");
+    expect(saved).not.toContain(API_KEY);
+
+    server.stop();
+    upstream.stop(true);
+    upstream = null;
+
+    server = new MockMagicServer({ host: "127.0.0.1", port: 0, fixturesDir: dir, logger: mockLogger });
+    const replayPort = await server.start();
+    const replayed = await createClient(replayPort).post<{ text: string }>("/api/fetch-ui", { message: "m", searchQuery: "pricing" });
+    expect(replayed.ok && replayed.data.text).toBe('<Recorded query="pricing" />');
+  });
+
+  it("answers 502 when the upstream API cannot be reached in record mode", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "magic-mock-"));
+    const closed = Bun.serve({ port: 0, hostname: "127.0.0.1", fetch: () => new Response() });
+    const closedPort = closed.port;
+    closed.stop(true);
+
+    server = new MockMagicServer({
+      host: "127.0.0.1",
+      port: 0,
+      fixturesDir: dir,
+      recordFrom: `http://127.0.0.1:${closedPort}`,
+      logger: mockLogger,
+    });
+    const port = await server.start();
+
+    const response = await fetch(`http://127.0.0.1:${port}/api/fetch-ui`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${API_KEY}` },
+      body: JSON.stringify({ message: "m", searchQuery: "pricing" }),
+    });
+    expect(response.status).toBe(502);
+    expect(((await response.json()) as { error: string }).error).toContain("Upstream request");
+    expect(readdirSync(dir)).toHaveLength(0);
+  });
+
+  it("passes non-JSON upstream responses through without stale encoding headers", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "magic-mock-"));
+    upstream = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: () =>
+        new Response(Bun.gzipSync(new TextEncoder().encode("<h1>Bad gateway</h1>")), {
+          status: 503,
+          headers: { "Content-Type": "text/html", "Content-Encoding": "gzip", "X-Upstream": "edge" },
+        }),
+    });
+
+    server = new MockMagicServer({
+      host: "127.0.0.1",
+      port: 0,
+      fixturesDir: dir,
+      recordFrom: `http://127.0.0.1:${upstream.port}`,
+      logger: mockLogger,
+    });
+    const port = await server.start();
+
+    const response = await fetch(`http://127.0.0.1:${port}/api/fetch-ui`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${API_KEY}` },
+      body: JSON.stringify({ message: "m", searchQuery: "pricing" }),
+    });
+    expect(response.status).toBe(503);
+    expect(response.headers.get("content-encoding")).toBeNull();
+    expect(response.headers.get("x-upstream")).toBe("edge");
+    expect(await response.text()).toBe("<h1>Bad gateway</h1>");
+  });
+});
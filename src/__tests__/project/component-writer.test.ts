@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync, mkdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { ApplyError, ComponentWriter, extractCodeBlock } from "../../project/component-writer.js";
+import { RefineUiTool } from "../../tools/refine-ui.tool.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => mockLogger,
+  getLevel: () => "debug" as const,
+} as any;
+
+describe("extractCodeBlock", () => {
+  it("picks the longest TS/JS block over shell snippets", () => {
+    const text = "Intro\n```tsx\nexport const A = 1\n```\n```bash\nnpx shadcn@latest add button table textarea\n```\n```tsx\nexport const Longer = 12345\n```";
+    expect(extractCodeBlock(text)).toBe("export const Longer = 12345\n");
+    expect(extractCodeBlock("```\nplain()\n```")).toBe("plain()\n");
+    expect(extractCodeBlock("No code here")).toBeNull();
+  });
+});
+
+describe("ComponentWriter", () => {
+  let workspace: string;
+  let writer: ComponentWriter;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(path.join(tmpdir(), "magic-apply-"));
+    writer = new ComponentWriter({ workspaceRoot: workspace, logger: mockLogger });
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("creates new files, including missing directories", async () => {
+    const snapshot = await writer.snapshot("src/components/pricing.tsx");
+    const result = await writer.apply(snapshot, "export function Pricing() {}", {});
+
+    expect(result).toMatchObject({ status: "written", created: true });
+    expect(readFileSync(path.join(workspace, "src/components/pricing.tsx"), "utf-8")).toBe("export function Pricing() {}\n");
+  });
+
+  it("refuses paths outside the workspace", async () => {
+    await expect(writer.snapshot("/etc/passwd")).rejects.toMatchObject({ code: "INVALID_TARGET_PATH" });
+    await expect(writer.snapshot("../outside.tsx")).rejects.toMatchObject({ code: "INVALID_TARGET_PATH" });
+
+    const outside = mkdtempSync(path.join(tmpdir(), "magic-outside-"));
+    try {
+      symlinkSync(outside, path.join(workspace, "linked"));
+      await expect(writer.snapshot("linked/escape.tsx")).rejects.toBeInstanceOf(ApplyError);
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("needs confirmation to overwrite and shows a dry-run diff without writing", async () => {
+    writeFileSync(path.join(workspace, "button.tsx"), "export const Button = 1\n");
+    const snapshot = await writer.snapshot("button.tsx");
+
+    expect(() => writer.assertWritable(snapshot, {})).toThrow(/apply.overwrite/);
+    // Confirming alone is not enough: only content shown in a dry run replaces a file
+    expect(() => writer.assertWritable(snapshot, { overwrite: true })).toThrow(/baseHash and contentHash/);
+
+    const dryRun = await writer.apply(snapshot, "export const Button = 2\n", { dryRun: true });
+    if (dryRun.status !== "dry_run") throw new Error(`unexpected ${dryRun.status}`);
+    expect(dryRun.diff).toContain("-export const Button = 1\n+export const Button = 2");
+    expect(readFileSync(path.join(workspace, "button.tsx"), "utf-8")).toBe("export const Button = 1\n");
+
+    const { baseHash, contentHash } = dryRun;
+    const result = await writer.applyReviewed(await writer.snapshot("button.tsx"), { overwrite: true, baseHash, contentHash });
+    expect(result.status).toBe("written");
+    expect(readFileSync(path.join(workspace, "button.tsx"), "utf-8")).toBe("export const Button = 2\n");
+
+    // A dry run is written once
+    await expect(
+      writer.applyReviewed(await writer.snapshot("button.tsx"), { overwrite: true, baseHash, contentHash })
+    ).rejects.toMatchObject({ code: "DRY_RUN_NOT_FOUND" });
+  });
+
+  it("does not write a dry run over a file that changed since", async () => {
+    writeFileSync(path.join(workspace, "card.tsx"), "v1\n");
+    const dryRun = await writer.apply(await writer.snapshot("card.tsx"), "generated\n", { dryRun: true });
+    if (dryRun.status !== "dry_run") throw new Error(`unexpected ${dryRun.status}`);
+    writeFileSync(path.join(workspace, "card.tsx"), "edited by the user\n");
+
+    const { baseHash, contentHash } = dryRun;
+    await expect(
+      writer.applyReviewed(await writer.snapshot("card.tsx"), { overwrite: true, baseHash, contentHash })
+    ).rejects.toMatchObject({ code: "FILE_CHANGED" });
+    await expect(
+      writer.applyReviewed(await writer.snapshot("card.tsx"), { overwrite: true, baseHash, contentHash: "0".repeat(64) })
+    ).rejects.toMatchObject({ code: "DRY_RUN_NOT_FOUND" });
+    expect(readFileSync(path.join(workspace, "card.tsx"), "utf-8")).toBe("edited by the user\n");
+  });
+
+  it("does not overwrite a file created while the component was being generated", async () => {
+    const snapshot = await writer.snapshot("card.tsx");
+    writeFileSync(path.join(workspace, "card.tsx"), "created by the user\n");
+
+    await expect(writer.apply(snapshot, "generated\n", {})).rejects.toMatchObject({ code: "FILE_CHANGED" });
+    expect(readFileSync(path.join(workspace, "card.tsx"), "utf-8")).toBe("created by the user\n");
+  });
+});
+
+describe("magic_component_refiner apply mode", () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(path.join(tmpdir(), "magic-apply-"));
+    mkdirSync(path.join(workspace, "src"));
+    writeFileSync(path.join(workspace, "src", "hero.tsx"), "export const Hero = () => <h1>Hi</h1>\n");
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  function createTool() {
+    const calls: unknown[] = [];
+    const httpClient = {
+      post: async (_endpoint: string, body: unknown) => {
+        calls.push(body);
+        return { ok: true, status: 200, data: { text: "Refined:\n```tsx\nexport const Hero = () => <h1 className=\"text-4xl\">Hi</h1>\n```" } };
+      },
+      getQuotaWarning: () => null,
+    } as any;
+    const tool = new RefineUiTool({
+      httpClient,
+      logger: mockLogger,
+      config: { maxFileSize: 1_048_576, workspaceRoot: workspace } as any,
+      componentWriter: new ComponentWriter({ workspaceRoot: workspace, logger: mockLogger }),
+    });
+    return { tool, calls };
+  }
+
+  const args = (apply: Record<string, unknown>) => ({
+    userMessage: "bigger heading",
+    absolutePathToRefiningFile: path.join(workspace, "src", "hero.tsx"),
+    context: "",
+    apply,
+  });
+
+  it("refuses to overwrite before calling the API, then dry-runs and writes the reviewed content on confirmation", async () => {
+    const { tool, calls } = createTool();
+
+    const refused = await tool.execute(args({}));
+    expect(refused.isError).toBe(true);
+    expect(JSON.parse(refused.content[0].text).code).toBe("COMPONENT_REFINER_OVERWRITE_NOT_CONFIRMED");
+    const unreviewed = await tool.execute(args({ overwrite: true }));
+    expect(JSON.parse(unreviewed.content[0].text).code).toBe("COMPONENT_REFINER_OVERWRITE_NOT_CONFIRMED");
+    expect(calls).toHaveLength(0);
+
+    const dryRun = await tool.execute(args({ dryRun: true }));
+    const text = dryRun.content[0].text;
+    expect(text).toContain("Dry run: this would update");
+    expect(text).toContain('+export const Hero = () => <h1 className="text-4xl">Hi</h1>');
+    const confirm = JSON.parse(text.slice(text.lastIndexOf("{"), text.lastIndexOf("}") + 1));
+    expect(Object.keys(confirm)).toEqual(["overwrite", "baseHash", "contentHash"]);
+    expect(confirm.baseHash).toMatch(/^[0-9a-f]{64}$/);
+
+    const written = await tool.execute(args(confirm));
+    expect(written.content[0].text).toContain("Updated");
+    expect(readFileSync(path.join(workspace, "src", "hero.tsx"), "utf-8")).toContain("text-4xl");
+    expect(existsSync(path.join(workspace, "src", "hero.tsx.tmp"))).toBe(false);
+    // The reviewed content was written, not a second refinement
+    expect(calls).toHaveLength(1);
+  });
+
+  it("refuses a dry run's hashes once the file changed, without calling the API", async () => {
+    const { tool, calls } = createTool();
+    const text = (await tool.execute(args({ dryRun: true }))).content[0].text;
+    const confirm = JSON.parse(text.slice(text.lastIndexOf("{"), text.lastIndexOf("}") + 1));
+
+    writeFileSync(path.join(workspace, "src", "hero.tsx"), "export const Hero = () => <h2>Edited</h2>\n");
+    const refused = await tool.execute(args(confirm));
+    expect(JSON.parse(refused.content[0].text).code).toBe("COMPONENT_REFINER_FILE_CHANGED");
+    expect(readFileSync(path.join(workspace, "src", "hero.tsx"), "utf-8")).toBe("export const Hero = () => <h2>Edited</h2>\n");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("returns a diff and change summary without writing in diff output mode", async () => {
+    const { tool } = createTool();
+    const { apply: _apply, ...refineArgs } = args({});
+
+    const result = await tool.execute({ ...refineArgs, output: "diff" });
+    const text = result.content[0].text;
+    expect(text).toContain("(+1 -1)");
+    expect(text).toContain("- Classes: added text-4xl");
+    expect(text).toContain('+export const Hero = () => <h1 className="text-4xl">Hi</h1>');
+    expect(readFileSync(path.join(workspace, "src", "hero.tsx"), "utf-8")).toBe("export const Hero = () => <h1>Hi</h1>\n");
+  });
+
+  it("only reads files inside the workspace root and sends nothing otherwise", async () => {
+    const outside = mkdtempSync(path.join(tmpdir(), "magic-outside-"));
+    try {
+      writeFileSync(path.join(outside, "secrets.tsx"), "export const key = 'secret'\n");
+      const { tool, calls } = createTool();
+      const { apply: _apply, ...refineArgs } = args({});
+
+      const refused = await tool.execute({ ...refineArgs, absolutePathToRefiningFile: path.join(outside, "secrets.tsx") });
+      expect(refused.isError).toBe(true);
+      expect(refused.content[0].text).toContain("outside the allowed base directory");
+
+      // Without a workspace root, files outside the server's own project are refused as well
+      const withoutRoot = new RefineUiTool({ httpClient: {} as any, logger: mockLogger, config: { maxFileSize: 1_048_576 } as any });
+      const unconfigured = await withoutRoot.execute(refineArgs);
+      expect(unconfigured.isError).toBe(true);
+      expect(unconfigured.content[0].text).toContain("outside the allowed base directory");
+      expect(calls).toHaveLength(0);
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
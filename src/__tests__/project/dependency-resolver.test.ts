@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { DependencyResolver, parseImports } from "../../project/dependency-resolver.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => mockLogger,
+  getLevel: () => "debug" as const,
+} as any;
+
+function writeFile(filePath: string, content: unknown) {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(filePath, typeof content === "string" ? content : JSON.stringify(content));
+}
+
+const SNIPPET = `Here is your component:
+
+\`\`\`tsx
+"use client"
+import * as React from "react"
+import { motion } from "framer-motion"
+import { Check } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import debounce from "lodash/debounce"
+import { readFile } from "node:fs/promises"
+import "./styles.css"
+const Chart = React.lazy(() => import("@nivo/line"))
+\`\`\`
+`;
+
+describe("parseImports", () => {
+  it("finds static, side-effect and dynamic imports", () => {
+    expect(parseImports(SNIPPET).sort()).toEqual(
+      [
+        "react",
+        "framer-motion",
+        "lucide-react",
+        "@/components/ui/button",
+        "@/components/ui/table",
+        "@/lib/utils",
+        "lodash/debounce",
+        "node:fs/promises",
+        "./styles.css",
+        "@nivo/line",
+      ].sort()
+    );
+  });
+});
+
+describe("DependencyResolver", () => {
+  let root: string;
+  const resolver = new DependencyResolver({ logger: mockLogger });
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), "magic-deps-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("lists missing shadcn components and packages with pnpm commands", async () => {
+    writeFile(path.join(root, "package.json"), { dependencies: { react: "^18.3.0", "lucide-react": "^0.400.0" } });
+    writeFile(path.join(root, "pnpm-lock.yaml"), "lockfileVersion: '9.0'\n");
+    writeFile(path.join(root, "components.json"), { aliases: { components: "@/components", utils: "@/lib/utils" } });
+    writeFile(path.join(root, "src", "components", "ui", "button.tsx"), "export function Button() {}");
+
+    const report = await resolver.resolve(SNIPPET, path.join(root, "src", "app", "page.tsx"), root);
+
+    expect(report).toEqual({
+      packageManager: "pnpm",
+      missingComponents: ["table"],
+      missingPackages: ["framer-motion", "lodash", "@nivo/line"],
+      commands: ["pnpm dlx shadcn@latest add table", "pnpm add framer-motion lodash @nivo/line"],
+    });
+  });
+
+  it("follows tsconfig paths and a custom ui alias", async () => {
+    writeFile(path.join(root, "package.json"), { dependencies: { react: "^19.0.0" } });
+    writeFile(path.join(root, "bun.lock"), "{}");
+    writeFile(path.join(root, "tsconfig.json"), { compilerOptions: { paths: { "~/*": ["./app/*"] } } });
+    writeFile(path.join(root, "components.json"), { aliases: { ui: "~/shared/ui" } });
+    writeFile(path.join(root, "app", "shared", "ui", "card.tsx"), "");
+
+    const code = `import { Card } from "~/shared/ui/card"\nimport { Badge } from "~/shared/ui/badge"`;
+    const report = await resolver.resolve(code, path.join(root, "app", "routes", "index.tsx"), root);
+
+    expect(report?.missingComponents).toEqual(["badge"]);
+    expect(report?.missingPackages).toEqual([]);
+    expect(report?.commands).toEqual(["bunx --bun shadcn@latest add badge"]);
+  });
+
+  it("reads a tsconfig with comments and trailing commas", async () => {
+    writeFile(path.join(root, "package.json"), { dependencies: { react: "^19.0.0" } });
+    writeFile(
+      path.join(root, "tsconfig.json"),
+      `{
+  // Generated by create-next-app
+  "compilerOptions": {
+    /* Path aliases */
+    "baseUrl": ".",
+    "paths": { "~/*": ["./app/*"], },
+    "outDir": "dist//out", // not a comment inside a string
+  },
+}
+`
+    );
+    writeFile(path.join(root, "components.json"), { aliases: { ui: "~/shared/ui" } });
+    writeFile(path.join(root, "app", "shared", "ui", "card.tsx"), "");
+
+    const code = `import { Card } from "~/shared/ui/card"\nimport { Badge } from "~/shared/ui/badge"`;
+    const report = await resolver.resolve(code, path.join(root, "app", "routes", "index.tsx"), root);
+
+    expect(report?.missingComponents).toEqual(["badge"]);
+  });
+
+  it("falls back to the packageManager field, then npm", async () => {
+    writeFile(path.join(root, "package.json"), { packageManager: "yarn@4.1.0" });
+    const code = `import { z } from "zod"`;
+    expect((await resolver.resolve(code, path.join(root, "index.tsx"), root))?.commands).toEqual(["yarn add zod"]);
+
+    writeFile(path.join(root, "package.json"), {});
+    expect((await resolver.resolve(code, path.join(root, "index.tsx"), root))?.commands).toEqual(["npm install zod"]);
+  });
+
+  it("returns null outside any package", async () => {
+    expect(await resolver.resolve(SNIPPET, path.join(root, "loose.tsx"), root)).toBeNull();
+  });
+
+  it("reads neither package.json nor lockfiles above the workspace root", async () => {
+    writeFile(path.join(root, "package.json"), { dependencies: { zod: "^3.0.0" } });
+    writeFile(path.join(root, "pnpm-lock.yaml"), "lockfileVersion: '9.0'\n");
+    const workspaceRoot = path.join(root, "apps");
+    const code = `import { z } from "zod"`;
+
+    expect(await resolver.resolve(code, path.join(workspaceRoot, "web", "index.tsx"), workspaceRoot)).toBeNull();
+
+    writeFile(path.join(workspaceRoot, "web", "package.json"), {});
+    expect(await resolver.resolve(code, path.join(workspaceRoot, "web", "index.tsx"), workspaceRoot)).toEqual({
+      packageManager: "npm",
+      missingComponents: [],
+      missingPackages: ["zod"],
+      commands: ["npm install zod"],
+    });
+
+    // A monorepo lockfile between the project and the workspace root still counts
+    writeFile(path.join(workspaceRoot, "yarn.lock"), "");
+    expect((await resolver.resolve(code, path.join(workspaceRoot, "web", "index.tsx"), workspaceRoot))?.packageManager).toBe("yarn");
+  });
+});
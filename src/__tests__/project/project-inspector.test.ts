@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { ProjectInspector } from "../../project/project-inspector.js";
+import { FetchUiTool } from "../../tools/fetch-ui.tool.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => mockLogger,
+  getLevel: () => "debug" as const,
+} as any;
+
+function writeFile(filePath: string, content: unknown) {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(filePath, typeof content === "string" ? content : JSON.stringify(content));
+}
+
+describe("ProjectInspector", () => {
+  let root: string;
+  const inspector = new ProjectInspector({ logger: mockLogger });
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), "magic-project-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("detects a Next.js app router project with Tailwind 3, shadcn and lucide", async () => {
+    writeFile(path.join(root, "package.json"), {
+      dependencies: { next: "^14.2.0", react: "^18.3.0", "lucide-react": "^0.400.0" },
+      devDependencies: { tailwindcss: "^3.4.0", typescript: "^5.4.0" },
+    });
+    writeFile(path.join(root, "node_modules", "react", "package.json"), { version: "18.3.1" });
+    writeFile(path.join(root, "tailwind.config.ts"), "export default {}");
+    writeFile(path.join(root, "tsconfig.json"), {});
+    writeFile(path.join(root, "components.json"), {
+      style: "new-york",
+      rsc: true,
+      tsx: true,
+      tailwind: { config: "tailwind.config.ts", baseColor: "zinc", cssVariables: true },
+      aliases: { components: "@/components", utils: "@/lib/utils" },
+    });
+    mkdirSync(path.join(root, "src", "app"), { recursive: true });
+
+    const context = await inspector.inspect(path.join(root, "src", "components", "hero.tsx"), root);
+
+    expect(context).toEqual({
+      framework: { name: "nextjs", version: "^14.2.0", router: "app" },
+      language: "typescript",
+      react: { version: "18.3.1", major: 18 },
+      tailwind: { version: "^3.4.0", major: 3, config: "tailwind.config.ts" },
+      shadcn: {
+        style: "new-york",
+        baseColor: "zinc",
+        cssVariables: true,
+        rsc: true,
+        tsx: true,
+        aliases: { components: "@/components", utils: "@/lib/utils" },
+      },
+      iconLibrary: "lucide",
+    });
+  });
+
+  it("uses the router the file is in and walks up from nested directories", async () => {
+    writeFile(path.join(root, "package.json"), { dependencies: { next: "13.5.0", react: "18.2.0" } });
+    mkdirSync(path.join(root, "app"));
+    mkdirSync(path.join(root, "pages"));
+
+    const context = await inspector.inspect(path.join(root, "pages", "blog", "[slug].jsx"), root);
+    expect(context?.framework).toEqual({ name: "nextjs", version: "13.5.0", router: "pages" });
+    expect(context?.language).toBe("javascript");
+  });
+
+  it("prefers Remix over the Vite dependency it ships with and detects Tailwind 4 without a config file", async () => {
+    writeFile(path.join(root, "package.json"), {
+      dependencies: { "@remix-run/react": "^2.9.0", react: "^19.0.0", "@heroicons/react": "^2.1.0" },
+      devDependencies: { vite: "^5.0.0", tailwindcss: "^4.0.0" },
+    });
+
+    const context = await inspector.inspect(path.join(root, "app", "routes", "_index.tsx"), root);
+    expect(context?.framework).toEqual({ name: "remix", version: "^2.9.0" });
+    expect(context?.tailwind).toEqual({ version: "^4.0.0", major: 4, config: null });
+    expect(context?.react?.major).toBe(19);
+    expect(context?.shadcn).toBeNull();
+    expect(context?.iconLibrary).toBe("heroicons");
+  });
+
+  it("returns null outside any package", async () => {
+    expect(await inspector.inspect(path.join(root, "loose.tsx"), root)).toBeNull();
+  });
+
+  it("does not read a package.json above the workspace root", async () => {
+    writeFile(path.join(root, "package.json"), { dependencies: { next: "^14.2.0" } });
+    const workspaceRoot = path.join(root, "site");
+    expect(await inspector.inspect(path.join(workspaceRoot, "hero.tsx"), workspaceRoot)).toBeNull();
+  });
+
+  it("sends the context with magic_component_inspiration requests", async () => {
+    writeFile(path.join(root, "package.json"), { dependencies: { astro: "^4.0.0" } });
+    const bodies: unknown[] = [];
+    const httpClient = {
+      post: async (_endpoint: string, body: unknown) => {
+        bodies.push(body);
+        return { ok: true, status: 200, data: { text: "components" } };
+      },
+      getQuotaWarning: () => null,
+    } as any;
+
+    const tool = new FetchUiTool({ httpClient, logger: mockLogger, projectInspector: inspector, workspaceRoot: root });
+    await tool.execute({ message: "hero", searchQuery: "hero section", absolutePathToCurrentFile: path.join(root, "src", "pages", "index.astro") });
+    await tool.execute({ message: "hero", searchQuery: "hero section" });
+
+    expect((bodies[0] as any).projectContext.framework).toEqual({ name: "astro", version: "^4.0.0" });
+    expect(bodies[1]).toEqual({ message: "hero", searchQuery: "hero section" });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { readRoots, resolveProjectFile, rootUriPaths } from "../../project/read-roots.js";
+import { runWithRequestContext } from "../../request-context.js";
+import { RefineUiTool } from "../../tools/refine-ui.tool.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => mockLogger,
+  getLevel: () => "debug" as const,
+} as any;
+
+describe("read roots without a configured workspace root", () => {
+  let project: string;
+
+  beforeEach(() => {
+    project = mkdtempSync(path.join(tmpdir(), "magic-roots-"));
+    mkdirSync(path.join(project, "src", "components"), { recursive: true });
+    writeFileSync(path.join(project, "package.json"), "{}");
+    writeFileSync(path.join(project, "src", "components", "hero.tsx"), "export const Hero = () => <h1>Hi</h1>\n");
+  });
+
+  afterEach(() => {
+    rmSync(project, { recursive: true, force: true });
+  });
+
+  const withClientRoots = <T>(roots: string[], fn: () => Promise<T>) =>
+    runWithRequestContext({ requestId: "r1", tool: "t", clientRoots: async () => roots }, fn);
+
+  it("uses the project the server was started in", async () => {
+    expect(await readRoots(undefined, path.join(project, "src"))).toEqual([project]);
+
+    const noPackage = path.join(project, "src", "components");
+    rmSync(path.join(project, "package.json"));
+    expect(await readRoots(undefined, noPackage)).toEqual([noPackage]);
+  });
+
+  it("prefers the client's roots, skipping the filesystem root and the home directory", async () => {
+    const other = path.join(project, "src");
+    expect(await withClientRoots([path.parse(project).root, homedir(), other], () => readRoots(undefined, "/"))).toEqual([other]);
+    expect(await withClientRoots([homedir()], () => readRoots(undefined, project))).toEqual([project]);
+    expect(await withClientRoots([other], () => readRoots(project, "/"))).toEqual([project]);
+  });
+
+  it("refuses everything when started in the filesystem root or the home directory", async () => {
+    expect(await readRoots(undefined, homedir())).toEqual([]);
+    const result = await resolveProjectFile(path.join(project, "src", "components", "hero.tsx"), undefined, path.parse(project).root);
+    expect(result.valid).toBe(false);
+  });
+
+  it("turns file:// root URIs into paths and skips other schemes", () => {
+    expect(rootUriPaths([pathToFileURL(project).href, "https://example.com/repo"])).toEqual([project]);
+  });
+
+  it("lets the refiner read files under the client's roots, but not write them", async () => {
+    const calls: Array<Record<string, unknown>> = [];
+    const httpClient = {
+      post: async (_endpoint: string, body: Record<string, unknown>) => {
+        calls.push(body);
+        return { ok: true, status: 200, data: { text: "```tsx\nexport const Hero = () => <h1 className=\"text-4xl\">Hi</h1>\n```" } };
+      },
+      getQuotaWarning: () => null,
+    } as any;
+    const tool = new RefineUiTool({ httpClient, logger: mockLogger, config: { maxFileSize: 1_048_576 } as any });
+    const args = {
+      userMessage: "bigger heading",
+      absolutePathToRefiningFile: path.join(project, "src", "components", "hero.tsx"),
+      context: "",
+    };
+
+    const diff = await withClientRoots([project], () => tool.execute({ ...args, output: "diff" }));
+    expect(calls[0].fileContent).toBe("export const Hero = () => <h1>Hi</h1>\n");
+    expect(diff.content[0].text).toContain("Refined src/components/hero.tsx (+1 -1)");
+
+    const applied = await withClientRoots([project], () => tool.execute({ ...args, apply: { overwrite: true } }));
+    expect(JSON.parse(applied.content[0].text).code).toBe("COMPONENT_REFINER_APPLY_UNAVAILABLE");
+    expect(calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { resolveScope, scopedSource, spliceScope } from "../../project/source-scope.js";
+import { RefineUiTool } from "../../tools/refine-ui.tool.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => mockLogger,
+  getLevel: () => "debug" as const,
+} as any;
+
+const page = `"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+
+export function Header({ title }: { title: string }) {
+  return <header className="p-4">{title}</header>;
+}
+
+/** Call to action at the bottom of the page */
+export const Cta = React.forwardRef<
+  HTMLDivElement,
+  { label: string }
+>(({ label }, ref) => {
+  const note = \`Don't miss \${label}\`;
+  return (
+    <div ref={ref}>
+      <Button>{note}</Button>
+    </div>
+  );
+});
+Cta.displayName = "Cta";
+
+export default function Page() {
+  return <Cta label="it" />;
+}
+`;
+
+describe("resolveScope", () => {
+  it("finds a symbol with its doc comment and displayName, and collects the file's imports", () => {
+    const scope = resolveScope(page, { symbol: "Cta" });
+
+    expect(scope).toMatchObject({ startLine: 10, endLine: 22, includesImports: false, label: "Cta (lines 10-22)" });
+    expect(scope.source.split("\n")[0]).toBe("/** Call to action at the bottom of the page */");
+    expect(scope.source.endsWith('Cta.displayName = "Cta";')).toBe(true);
+    expect(scopedSource(scope)).toBe(
+      `import * as React from "react";\nimport { Button } from "@/components/ui/button";\n\n${scope.source}`
+    );
+
+    expect(resolveScope(page, { symbol: "Header" })).toMatchObject({ startLine: 6, endLine: 8 });
+  });
+
+  it("rejects unknown symbols and invalid ranges", () => {
+    expect(() => resolveScope(page, { symbol: "Footer" })).toThrow(/No top-level declaration of Footer/);
+    expect(() => resolveScope(page, { startLine: 5, endLine: 99 })).toThrow(/not a valid range/);
+    expect(() => resolveScope(page, { startLine: 5 })).toThrow(/both startLine and endLine/);
+    expect(() => resolveScope(page, { symbol: "Cta", startLine: 1, endLine: 2 })).toThrow(/not both/);
+  });
+});
+
+describe("spliceScope", () => {
+  it("replaces the scoped lines and merges the refined code's imports", () => {
+    const scope = resolveScope(page, { startLine: 6, endLine: 8 });
+    const refined = `import * as React from "react";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+export function Header({ title }: { title: string }) {
+  return <header className={cn("p-6", buttonVariants())}>{title}</header>;
+}
+`;
+
+    const result = spliceScope(page, scope, refined).split("\n");
+    expect(result.slice(0, 6)).toEqual([
+      '"use client";',
+      "",
+      'import * as React from "react";',
+      'import { Button, buttonVariants } from "@/components/ui/button";',
+      'import { cn } from "@/lib/utils";',
+      "",
+    ]);
+    expect(result[7]).toBe('  return <header className={cn("p-6", buttonVariants())}>{title}</header>;');
+    expect(result.slice(9).join("\n")).toBe(page.split("\n").slice(8).join("\n"));
+  });
+});
+
+describe("magic_component_refiner scope", () => {
+  let workspace: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(path.join(tmpdir(), "magic-scope-"));
+    filePath = path.join(workspace, "page.tsx");
+    writeFileSync(filePath, page);
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  function createTool(maxFileSize = 1_048_576) {
+    const calls: any[] = [];
+    const httpClient = {
+      post: async (_endpoint: string, body: unknown) => {
+        calls.push(body);
+        return {
+          ok: true,
+          status: 200,
+          data: { text: 'Here you go:\n```tsx\nexport function Header({ title }: { title: string }) {\n  return <header className="p-8">{title}</header>;\n}\n```' },
+        };
+      },
+      getQuotaWarning: () => null,
+    } as any;
+    const tool = new RefineUiTool({ httpClient, logger: mockLogger, config: { maxFileSize, workspaceRoot: workspace } as any });
+    return { tool, calls };
+  }
+
+  it("sends only the scoped component and splices the result into the diff", async () => {
+    const { tool, calls } = createTool(400);
+
+    const result = await tool.execute({
+      userMessage: "more padding",
+      absolutePathToRefiningFile: filePath,
+      context: "",
+      scope: { symbol: "Header" },
+      output: "diff",
+    });
+
+    expect(calls[0].fileContent).not.toContain("Cta");
+    expect(calls[0].fileContent).toContain('import { Button } from "@/components/ui/button";');
+    const text = result.content[0].text;
+    expect(text).toContain("Refined page.tsx (+1 -1)");
+    expect(text).toContain('+  return <header className="p-8">{title}</header>;');
+    expect(readFileSync(filePath, "utf-8")).toBe(page);
+  });
+
+  it("returns the full file with the refined component in place", async () => {
+    const { tool } = createTool();
+
+    const result = await tool.execute({
+      userMessage: "more padding",
+      absolutePathToRefiningFile: filePath,
+      context: "",
+      scope: { startLine: 6, endLine: 8 },
+    });
+
+    const text = result.content[0].text;
+    expect(text).toStartWith("Refined lines 6-8, shown in place in the full file:");
+    expect(text).toContain(page.replace('className="p-4"', 'className="p-8"'));
+  });
+
+  it("reports an unknown symbol as a tool error", async () => {
+    const { tool, calls } = createTool();
+
+    const result = await tool.execute({
+      userMessage: "x",
+      absolutePathToRefiningFile: filePath,
+      context: "",
+      scope: { symbol: "Missing" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      code: "COMPONENT_REFINER_SYMBOL_NOT_FOUND",
+      details: { declared: ["Header", "Cta", "Page"] },
+    });
+    expect(calls).toHaveLength(0);
+  });
+});
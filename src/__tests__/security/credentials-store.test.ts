@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { chmodSync, mkdtempSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { CredentialsError, CredentialsStore } from "../../security/credentials-store.js";
+
+describe("CredentialsStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "magic-credentials-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("saves the key readable only by the owner and reads it back", () => {
+    const store = new CredentialsStore(path.join(dir, "nested"));
+    expect(store.read()).toBeNull();
+
+    store.save("sk_live_1234567890abcdef");
+    expect(statSync(store.filePath).mode & 0o777).toBe(0o600);
+    expect(store.read()).toBe("sk_live_1234567890abcdef");
+
+    // Saving again tightens permissions that were loosened in between
+    chmodSync(store.filePath, 0o644);
+    store.save("sk_live_new");
+    expect(statSync(store.filePath).mode & 0o777).toBe(0o600);
+    expect(store.read()).toBe("sk_live_new");
+  });
+
+  it("refuses a file other users can access", () => {
+    const store = new CredentialsStore(dir);
+    store.save("sk_live_1234567890abcdef");
+    chmodSync(store.filePath, 0o640);
+    expect(() => store.read()).toThrow(CredentialsError);
+  });
+
+  it("rejects malformed files", () => {
+    const store = new CredentialsStore(dir);
+    writeFileSync(store.filePath, "{", { mode: 0o600 });
+    expect(() => store.read()).toThrow(/not valid JSON/);
+    writeFileSync(store.filePath, JSON.stringify({ key: "x" }), { mode: 0o600 });
+    expect(() => store.read()).toThrow(/expected \{"apiKey"/);
+  });
+
+  it("keeps per-profile keys next to the default key", () => {
+    const store = new CredentialsStore(dir);
+    store.save("sk_default");
+    store.save("sk_staging", "staging");
+
+    expect(store.read()).toBe("sk_default");
+    expect(store.read("staging")).toBe("sk_staging");
+    expect(store.read("prod")).toBeNull();
+
+    expect(store.remove("staging")).toBe(true);
+    expect(store.read("staging")).toBeNull();
+    expect(store.read()).toBe("sk_default");
+  });
+
+  it("removes the stored key", () => {
+    const store = new CredentialsStore(dir);
+    expect(store.remove()).toBe(false);
+    store.save("sk_live_1234567890abcdef");
+    expect(store.remove()).toBe(true);
+    expect(store.read()).toBeNull();
+  });
+});
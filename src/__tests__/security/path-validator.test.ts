@@ -31,3 +31,12 @@ describe("PathValidator", () => {
     expect(validator.containsTraversal(".hidden")).toBe(false);
   });
 });
+
+describe("PathValidator.validate", () => {
+  const validator = new PathValidator();
+
+  it("rejects paths outside a base directory that shares its prefix", async () => {
+    const result = await validator.validate("/srv/app-secrets/key", "/srv/app");
+    expect(result.valid).toBe(false);
+  });
+});
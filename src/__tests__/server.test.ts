@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ListRootsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { parseConfig } from "../config.js";
+import { MagicServer } from "../server.js";
+import { Outbound } from "../http/outbound.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => mockLogger,
+  getLevel: () => "debug" as const,
+} as any;
+
+const fakeHttpClient = {
+  get: async () => ({ status: 200, data: null, ok: true }),
+  post: async () => ({ status: 200, data: { text: "" }, ok: true }),
+  getCacheStats: () => null,
+  getCircuitBreakerState: () => null,
+  getQuotaState: () => null,
+  getQuotaWarning: () => null,
+} as any;
+
+function createConfig(argv: string[] = [], cwd = "/nonexistent") {
+  return parseConfig({
+    argv: ["--http", "PORT=0", ...argv],
+    env: { API_KEY: "test-key" },
+    cwd,
+    userConfigDir: "/nonexistent",
+  });
+}
+
+describe("MagicServer tool selection", () => {
+  let server: MagicServer | null = null;
+  let client: Client | null = null;
+
+  afterEach(async () => {
+    await client?.close().catch(() => {});
+    client = null;
+    await server?.shutdown();
+    server = null;
+  });
+
+  async function listTools(argv: string[] = [], cwd?: string, mcpClient = new Client({ name: "test-client", version: "0.0.0" })) {
+    server = new MagicServer({
+      config: createConfig(argv, cwd),
+      httpClient: fakeHttpClient,
+      outbound: new Outbound({ logger: mockLogger }),
+      browserDetector: {} as any,
+      logger: mockLogger,
+    });
+    await server.start();
+
+    client = mcpClient;
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${server.getPort()}/mcp`)));
+    const { tools } = await client.listTools();
+    return tools.map((tool) => tool.name);
+  }
+
+  it("does not register the canvas tool without --canvas", async () => {
+    const names = await listTools();
+    expect(names).toContain("magic_component_builder");
+    expect(names).not.toContain("magic_component_canvas");
+  });
+
+  it("registers the canvas tool with --canvas", async () => {
+    const names = await listTools(["--canvas"]);
+    expect(names).toContain("magic_component_canvas");
+  });
+
+  it("skips tools disabled in config, including dependent job tools", async () => {
+    const names = await listTools(["DISABLED_TOOLS=magic_component_builder,magic_logo_search"]);
+    expect(names).not.toContain("magic_component_builder");
+    expect(names).not.toContain("magic_logo_search");
+    expect(names).not.toContain("magic_component_job_status");
+    expect(names).toContain("magic_component_inspiration");
+  });
+
+  it("reports disabled tools in magic_health_check", async () => {
+    await listTools(["DISABLED_TOOLS=magic_logo_search"]);
+    const result = await client!.callTool({ name: "magic_health_check", arguments: {} });
+    const health = JSON.parse((result.content as Array<{ text: string }>)[0].text);
+
+    expect(health.disabled_tools).toContainEqual({
+      name: "magic_logo_search",
+      reason: "disabled in config (tools.magic_logo_search)",
+    });
+    expect(health.disabled_tools.map((t: { name: string }) => t.name)).toContain("magic_component_canvas");
+    expect(health.profile).toBeNull();
+  });
+
+  it("applies the selected profile's tools and reports its name, not its key", async () => {
+    const projectDir = mkdtempSync(path.join(tmpdir(), "magic-profile-"));
+    try {
+      writeFileSync(
+        path.join(projectDir, "magic.config.json"),
+        JSON.stringify({ profiles: { staging: { tools: { magic_logo_search: false } } } })
+      );
+      const names = await listTools(["--profile", "staging"], projectDir);
+      expect(names).not.toContain("magic_logo_search");
+
+      const result = await client!.callTool({ name: "magic_health_check", arguments: {} });
+      const text = (result.content as Array<{ text: string }>)[0].text;
+      expect(JSON.parse(text).profile).toBe("staging");
+      expect(text).not.toContain("test-key");
+      expect(result._meta).toEqual({ profile: "staging" });
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+
+  it("reads project files under the client's roots when no workspace root is set", async () => {
+    const projectDir = mkdtempSync(path.join(tmpdir(), "magic-roots-"));
+    try {
+      for (const name of ["one", "two"]) {
+        mkdirSync(path.join(projectDir, name));
+        writeFileSync(path.join(projectDir, name, "hero.tsx"), "export const Hero = () => <h1>Hi</h1>\n");
+      }
+      let roots = [path.join(projectDir, "one")];
+      const mcpClient = new Client({ name: "test-client", version: "0.0.0" }, { capabilities: { roots: { listChanged: true } } });
+      mcpClient.setRequestHandler(ListRootsRequestSchema, async () => ({
+        roots: roots.map((root) => ({ uri: pathToFileURL(root).href })),
+      }));
+      await listTools([], undefined, mcpClient);
+
+      const refine = async (name: string) => {
+        const result = await client!.callTool({
+          name: "magic_component_refiner",
+          arguments: { userMessage: "bigger", absolutePathToRefiningFile: path.join(projectDir, name, "hero.tsx"), context: "" },
+        });
+        return result.isError ? (result.content as Array<{ text: string }>)[0].text : "refined";
+      };
+
+      expect(await refine("one")).toBe("refined");
+      expect(await refine("two")).toContain("outside the allowed base directory");
+
+      roots = [path.join(projectDir, "two")];
+      await client!.sendRootsListChanged();
+      await Bun.sleep(50);
+      expect(await refine("two")).toBe("refined");
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps apply mode off until a workspace root is set", async () => {
+    await listTools();
+    const result = await client!.callTool({
+      name: "magic_component_builder",
+      arguments: {
+        message: "a pricing table",
+        searchQuery: "pricing table",
+        absolutePathToCurrentFile: "/nonexistent/page.tsx",
+        standaloneRequestQuery: "a pricing table",
+        apply: { targetPath: "pricing-table.tsx" },
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain("Apply mode is off until a workspace root is set");
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, mock } from "bun:test";
 import { z } from "zod";
 import { BaseTool } from "../../tools/base-tool.js";
 import type { ToolResponse } from "../../tools/base-tool.js";
+import { HttpError } from "../../http/errors.js";
+import { getRequestContext } from "../../request-context.js";
 
 class TestTool extends BaseTool {
   readonly name = "magic_test-tool";
@@ -51,4 +53,65 @@ describe("BaseTool", () => {
     // Third arg should be the schema shape
     expect(callArgs[2]).toHaveProperty("input");
   });
+
+  it("formatApiError maps HttpError kinds to specific error codes", () => {
+    const tool = new TestTool();
+    const error = new HttpError("/api/fetch-ui returned a response that does not match the expected shape", {
+      kind: "invalid_response",
+      endpoint: "/api/fetch-ui",
+      status: 200,
+      attempts: 1,
+      excerpt: '{"txt":"oops"}',
+      issues: ["text: Invalid input: expected string, received undefined"],
+    });
+
+    const result = (tool as any).formatApiError(error, "fallback");
+    const parsed = JSON.parse(result.content[0].text);
+    expect(result.isError).toBe(true);
+    expect(parsed.code).toBe("TEST_TOOL_INVALID_RESPONSE");
+    expect(parsed.details).toMatchObject({
+      kind: "invalid_response",
+      status: 200,
+      excerpt: '{"txt":"oops"}',
+      issues: ["text: Invalid input: expected string, received undefined"],
+    });
+
+    const fallback = JSON.parse((tool as any).formatApiError(new Error("boom"), "fallback").content[0].text);
+    expect(fallback.code).toBe("TEST_TOOL_API_ERROR");
+  });
+
+  it("runs each registered call in its own request context", async () => {
+    class ContextTool extends TestTool {
+      async execute(): Promise<ToolResponse> {
+        return this.formatError("failed", "FAILED");
+      }
+    }
+    let handler: (args: unknown, extra?: unknown) => Promise<ToolResponse> = async () => ({ content: [] });
+    const fakeServer = { tool: (_name: string, _desc: string, _shape: unknown, fn: typeof handler) => (handler = fn) } as any;
+    new ContextTool().register(fakeServer);
+
+    const first = JSON.parse((await handler({ input: "x" })).content[0].text);
+    const second = JSON.parse((await handler({ input: "x" })).content[0].text);
+
+    expect(first.details.requestId).toMatch(/^[0-9a-f]{8}$/);
+    expect(second.details.requestId).not.toBe(first.details.requestId);
+    expect(getRequestContext()).toBeUndefined();
+  });
+
+  it("reports the profile that served a call", async () => {
+    class FailingTool extends TestTool {
+      async execute(): Promise<ToolResponse> {
+        return this.formatError("failed", "FAILED");
+      }
+    }
+
+    const ok = await new TestTool().run({ input: "x" }, undefined, "staging");
+    expect(ok._meta).toEqual({ profile: "staging" });
+
+    const failed = await new FailingTool().run({ input: "x" }, undefined, "staging");
+    expect(JSON.parse(failed.content[0].text).details.profile).toBe("staging");
+
+    const unprofiled = await new TestTool().run({ input: "x" });
+    expect(unprofiled._meta).toBeUndefined();
+  });
 });
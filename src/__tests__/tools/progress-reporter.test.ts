@@ -0,0 +1,94 @@
+import { describe, it, expect } from "bun:test";
+import { ProgressReporter } from "../../tools/progress-reporter.js";
+import { runWithRequestContext } from "../../request-context.js";
+
+function createExtra(progressToken?: string | number) {
+  const notifications: any[] = [];
+  const extra = {
+    _meta: progressToken !== undefined ? { progressToken } : undefined,
+    sendNotification: async (notification: unknown) => {
+      notifications.push(notification);
+    },
+  } as any;
+  return { extra, notifications };
+}
+
+describe("ProgressReporter", () => {
+  it("does nothing without a progress token", async () => {
+    const { extra, notifications } = createExtra();
+    const reporter = new ProgressReporter(extra);
+
+    await reporter.report("phase");
+
+    expect(reporter.enabled).toBe(false);
+    expect(notifications).toHaveLength(0);
+  });
+
+  it("sends notifications/progress with the token and message", async () => {
+    const { extra, notifications } = createExtra("tok-1");
+    const reporter = new ProgressReporter(extra);
+
+    await reporter.report("Callback server started");
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].method).toBe("notifications/progress");
+    expect(notifications[0].params).toEqual({
+      progressToken: "tok-1",
+      progress: 1,
+      message: "Callback server started",
+    });
+  });
+
+  it("keeps progress strictly increasing", async () => {
+    const { extra, notifications } = createExtra(7);
+    const reporter = new ProgressReporter(extra);
+
+    await reporter.report("a", { progress: 3, total: 5 });
+    await reporter.report("b", { progress: 2, total: 5 });
+    await reporter.report("c");
+
+    expect(notifications.map((n) => n.params.progress)).toEqual([3, 4, 5]);
+  });
+
+  it("track() reports elapsed and remaining time until stopped", async () => {
+    const { extra, notifications } = createExtra("tok");
+    const reporter = new ProgressReporter(extra);
+
+    const stop = reporter.track("Waiting for selection", 60_000, 10);
+    await Bun.sleep(35);
+    stop();
+    const count = notifications.length;
+    await Bun.sleep(25);
+
+    expect(count).toBeGreaterThanOrEqual(2);
+    expect(notifications.length).toBe(count);
+    expect(notifications[0].params.message).toBe("Waiting for selection");
+    expect(notifications[1].params.message).toMatch(/Waiting for selection \(\d+s elapsed, \d+s remaining\)/);
+  });
+
+  it("partial() forwards streamed text as a log message and reports the running size", async () => {
+    const { extra, notifications } = createExtra("tok");
+    const reporter = new ProgressReporter(extra);
+
+    await reporter.partial("<Button", 7);
+
+    expect(notifications).toEqual([
+      { method: "notifications/message", params: { level: "info", logger: "magic", data: "<Button" } },
+      { method: "notifications/progress", params: { progressToken: "tok", progress: 1, message: "Received 7 characters" } },
+    ]);
+  });
+
+  it("partial() sends nothing without a progress token and no text above the client's log level", async () => {
+    const untracked = createExtra();
+    await new ProgressReporter(untracked.extra).partial("<Button", 7);
+    expect(untracked.notifications).toHaveLength(0);
+
+    const { extra, notifications } = createExtra("tok");
+    const reporter = new ProgressReporter(extra);
+    await runWithRequestContext({ requestId: "r1", tool: "t", clientLogLevel: "warning" }, () => reporter.partial("<Button", 7));
+    expect(notifications.map((n) => n.method)).toEqual(["notifications/progress"]);
+
+    await runWithRequestContext({ requestId: "r2", tool: "t", clientLogLevel: "debug" }, () => reporter.partial(" />", 10));
+    expect(notifications.map((n) => n.method)).toEqual(["notifications/progress", "notifications/message", "notifications/progress"]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { z } from "zod";
+import { HttpSessionServer } from "../../transport/http-server.js";
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  getLevel: () => "debug" as const,
+} as any;
+
+function createMcpServer(): McpServer {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  server.tool("echo", "Echo input", { input: z.string() }, async ({ input }) => ({
+    content: [{ type: "text" as const, text: input }],
+  }));
+  return server;
+}
+
+describe("HttpSessionServer", () => {
+  let httpServer: HttpSessionServer | null = null;
+  let clients: Client[] = [];
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.close().catch(() => {});
+    }
+    clients = [];
+    if (httpServer) {
+      await httpServer.close();
+      httpServer = null;
+    }
+  });
+
+  async function startServer(): Promise<number> {
+    httpServer = new HttpSessionServer({
+      host: "127.0.0.1",
+      port: 0,
+      createServer: createMcpServer,
+      logger: mockLogger,
+    });
+    return httpServer.start();
+  }
+
+  it("serves tools over streamable HTTP", async () => {
+    const port = await startServer();
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    clients.push(client);
+
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+    const result = await client.callTool({ name: "echo", arguments: { input: "hello" } });
+
+    expect((result.content as Array<{ text: string }>)[0].text).toBe("hello");
+  });
+
+  it("serves tools over the SSE fallback", async () => {
+    const port = await startServer();
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    clients.push(client);
+
+    await client.connect(new SSEClientTransport(new URL(`http://127.0.0.1:${port}/sse`)));
+    const { tools } = await client.listTools();
+
+    expect(tools.map((t) => t.name)).toEqual(["echo"]);
+  });
+
+  it("creates one session per client", async () => {
+    const port = await startServer();
+    for (let i = 0; i < 2; i++) {
+      const client = new Client({ name: `client-${i}`, version: "0.0.0" });
+      clients.push(client);
+      await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+    }
+
+    expect(httpServer!.getSessionCount()).toBe(2);
+  });
+
+  it("rejects non-initialize requests without a session id", async () => {
+    const port = await startServer();
+    const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects requests from a foreign Origin or Host", async () => {
+    const port = await startServer();
+    const initialize = {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "page", version: "0" } },
+    };
+    const post = (headers: Record<string, string>) =>
+      fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+        body: JSON.stringify(initialize),
+      });
+
+    const foreignOrigin = await post({ Origin: "http://evil.example" });
+    expect(foreignOrigin.status).toBe(403);
+    expect(foreignOrigin.headers.get("mcp-session-id")).toBeNull();
+    expect((await post({ Host: `evil.example:${port}` })).status).toBe(403);
+    expect((await fetch(`http://127.0.0.1:${port}/sse`, { headers: { Origin: "http://evil.example" } })).status).toBe(403);
+    expect(
+      (await fetch(`http://127.0.0.1:${port}/messages?sessionId=x`, { method: "POST", headers: { Origin: "http://evil.example" } })).status
+    ).toBe(403);
+    expect(httpServer!.getSessionCount()).toBe(0);
+
+    const sameOrigin = await post({ Origin: `http://localhost:${port}` });
+    expect(sameOrigin.status).toBe(200);
+    await sameOrigin.body?.cancel();
+  });
+
+  it("close() ends every open session", async () => {
+    const port = await startServer();
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    clients.push(client);
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+
+    await httpServer!.close();
+
+    expect(httpServer!.getSessionCount()).toBe(0);
+    httpServer = null;
+  });
+});
@@ -1,10 +1,13 @@
 import type { CorsHandler } from "./cors.js";
 import type { RateLimiter, RateLimitResult } from "../security/rate-limiter.js";
 import type { Logger } from "../logger.js";
+import { requestLogger } from "../request-context.js";
 
 export interface CallbackServerConfig {
   maxBodySize: number;
   cors: typeof CorsHandler;
+  /** Origins allowed besides the CorsHandler defaults */
+  allowedOrigins?: string[];
   rateLimiter: RateLimiter;
   logger: Logger;
 }
@@ -16,8 +19,9 @@ export type CallbackResult =
 export class CallbackServer {
   private readonly maxBodySize: number;
   private readonly cors: typeof CorsHandler;
+  private readonly allowedOrigins: string[];
   private readonly rateLimiter: RateLimiter;
-  private readonly logger: Logger;
+  private readonly baseLogger: Logger;
   private server: ReturnType<typeof Bun.serve> | null = null;
   private resolve: ((result: CallbackResult) => void) | null = null;
   private timeoutId: ReturnType<typeof setTimeout> | null = null;
@@ -25,8 +29,13 @@ export class CallbackServer {
   constructor(config: CallbackServerConfig) {
     this.maxBodySize = config.maxBodySize;
     this.cors = config.cors;
+    this.allowedOrigins = config.allowedOrigins ?? [];
     this.rateLimiter = config.rateLimiter;
-    this.logger = config.logger;
+    this.baseLogger = config.logger;
+  }
+
+  private get logger(): Logger {
+    return requestLogger(this.baseLogger);
   }
 
   async start(): Promise<number> {
@@ -41,16 +50,28 @@ export class CallbackServer {
     return port;
   }
 
-  waitForCallback(timeoutMs: number): Promise<CallbackResult> {
+  waitForCallback(timeoutMs: number, signal?: AbortSignal): Promise<CallbackResult> {
+    if (signal?.aborted) {
+      this.stop();
+      return Promise.resolve({ ok: false, reason: "cancelled" });
+    }
+
+    const onAbort = () => {
+      this.logger.info("CallbackServer wait cancelled by client");
+      this.cancel();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     return new Promise<CallbackResult>((resolve) => {
       this.resolve = resolve;
 
       this.timeoutId = setTimeout(() => {
         this.logger.info("CallbackServer timeout reached");
         this.stop();
+        this.resolve = null;
         resolve({ ok: false, reason: "timeout" });
       }, timeoutMs);
-    });
+    }).finally(() => signal?.removeEventListener("abort", onAbort));
   }
 
   cancel(): void {
@@ -78,17 +99,17 @@ export class CallbackServer {
 
     // CORS preflight
     if (req.method === "OPTIONS") {
-      const corsHeaders = this.cors.getCorsHeaders(origin);
+      const corsHeaders = this.cors.getCorsHeaders(origin, this.allowedOrigins);
       return new Response(null, { status: 200, headers: corsHeaders });
     }
 
     // CORS validation
-    if (!this.cors.isAllowedOrigin(origin)) {
+    if (!this.cors.isAllowedOrigin(origin, this.allowedOrigins)) {
       this.logger.warn(`CORS rejected origin: ${origin}`);
       return new Response("Forbidden: Origin not allowed", { status: 403 });
     }
 
-    const corsHeaders = this.cors.getCorsHeaders(origin);
+    const corsHeaders = this.cors.getCorsHeaders(origin, this.allowedOrigins);
 
     // Rate limiting
     const rateLimitResult: RateLimitResult = this.rateLimiter.check(clientIp);
@@ -8,11 +8,14 @@ const TWENTY_FIRST_DEV_PATTERN =
   /^https?:\/\/([a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?\.)*21st\.dev(:\d+)?$/;
 
 export class CorsHandler {
-  static isAllowedOrigin(origin: string | undefined): boolean {
+  /** `extraOrigins` are exact origins allowed on top of localhost and 21st.dev, e.g. a self-hosted web app */
+  static isAllowedOrigin(origin: string | undefined, extraOrigins: readonly string[] = []): boolean {
     if (!origin || origin.trim() === "") return true;
 
     const trimmed = origin.trim();
 
+    if (extraOrigins.includes(trimmed)) return true;
+
     for (const pattern of LOCALHOST_PATTERNS) {
       if (pattern.test(trimmed)) return true;
     }
@@ -22,14 +25,14 @@ export class CorsHandler {
     return false;
   }
 
-  static getCorsHeaders(origin: string | undefined): Record<string, string> {
+  static getCorsHeaders(origin: string | undefined, extraOrigins: readonly string[] = []): Record<string, string> {
     const headers: Record<string, string> = {
       "Access-Control-Allow-Methods": "POST, OPTIONS",
       "Access-Control-Allow-Headers": "Content-Type",
       "Access-Control-Max-Age": "86400",
     };
 
-    if (this.isAllowedOrigin(origin)) {
+    if (this.isAllowedOrigin(origin, extraOrigins)) {
       headers["Access-Control-Allow-Origin"] = origin || "*";
     }
 
@@ -0,0 +1,48 @@
+import { MagicServer } from "../server.js";
+import { createServices } from "../services.js";
+import { createCliLogger, loadConfig, parseCommandArgs, printToolResponse, UsageError, type CliCommand } from "./context.js";
+
+function parseToolArgs(json: string | undefined): unknown {
+  if (json === undefined) return {};
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new UsageError(`--json is not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+}
+
+export const callCommand: CliCommand = {
+  summary: "Invoke any enabled tool once and print its result",
+  usage: "magic call <tool> [--json '<arguments>']",
+
+  async run(args, ctx) {
+    const { values, positionals } = parseCommandArgs(args, { json: { type: "string" } });
+    const [name] = positionals;
+    if (!name || positionals.length > 1) throw new UsageError("Name exactly one tool, e.g. magic call magic_health_check");
+    const toolArgs = parseToolArgs(values.json);
+
+    const resolved = loadConfig(ctx);
+    if (!resolved) return 1;
+
+    const logger = createCliLogger(resolved);
+    const server = new MagicServer({ config: resolved.config, logger, ...createServices(resolved.config, logger) });
+    try {
+      const tools = server.getTools();
+      const tool = tools.find((candidate) => candidate.name === name);
+      if (!tool) {
+        ctx.error(`Unknown or disabled tool "${name}". Enabled tools: ${tools.map((candidate) => candidate.name).join(", ")}\n`);
+        return 1;
+      }
+
+      const parsed = tool.schema.safeParse(toolArgs);
+      if (!parsed.success) {
+        ctx.error(`Invalid arguments for ${name}:\n${parsed.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`).join("\n")}\n`);
+        return 1;
+      }
+
+      return printToolResponse(await tool.run(parsed.data, undefined, resolved.config.profile), ctx);
+    } finally {
+      await server.shutdown();
+    }
+  },
+};
@@ -0,0 +1,63 @@
+import { parseArgs, type ParseArgsConfig } from "node:util";
+import { ConfigError, resolveConfig, withoutConfigArgs, type ConfigOptions, type ResolvedConfig } from "../config.js";
+import { Logger } from "../logger.js";
+import type { ToolResponse } from "../tools/base-tool.js";
+
+export interface CliContext {
+  /** Passed to resolveConfig; the subcommand's own arguments are part of argv */
+  configOptions: ConfigOptions;
+  /** Command output (stdout) */
+  write(text: string): void;
+  /** Diagnostics and errors (stderr) */
+  error(text: string): void;
+  /** Prompts for a secret without echoing it */
+  readSecret(prompt: string): Promise<string>;
+}
+
+export interface CliCommand {
+  summary: string;
+  usage: string;
+  run(args: string[], ctx: CliContext): Promise<number>;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Parses a subcommand's arguments. Config arguments (API_KEY=..., --canvas,
+ * --profile team) are left to resolveConfig and skipped here.
+ */
+export function parseCommandArgs<T extends NonNullable<ParseArgsConfig["options"]>>(args: string[], options: T) {
+  try {
+    return parseArgs({ args: withoutConfigArgs(args), options, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** Resolves config, printing the validation report and returning null when it is invalid. */
+export function loadConfig(ctx: CliContext): ResolvedConfig | null {
+  try {
+    return resolveConfig(ctx.configOptions);
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    ctx.error(`${error.message}\n`);
+    return null;
+  }
+}
+
+/** Logs to stderr; quieter than the server unless a log level was configured. */
+export function createCliLogger(resolved: ResolvedConfig): Logger {
+  return new Logger(resolved.origins.logLevel.source === "default" ? "warn" : resolved.config.logLevel);
+}
+
+/** Writes a tool's text content to stdout, or to stderr for an error response. Returns the exit code. */
+export function printToolResponse(response: ToolResponse, ctx: CliContext): number {
+  const write = (text: string) => (response.isError ? ctx.error(text) : ctx.write(text));
+  for (const item of response.content) write(`${item.text.replace(/\n$/, "")}\n`);
+  return response.isError ? 1 : 0;
+}
@@ -0,0 +1,202 @@
+import { ConfigError, getUserConfigDir, resolveConfig, type ResolvedConfig } from "../config.js";
+import { BrowserDetector } from "../browser/detector.js";
+import { CallbackServer } from "../callback/callback-server.js";
+import { CorsHandler } from "../callback/cors.js";
+import type { HttpClient } from "../http/client.js";
+import { VerifiedKeys, validateApiKey } from "../http/key-validator.js";
+import { maskKey } from "../http/quota-tracker.js";
+import { HealthResponseSchema } from "../http/schemas.js";
+import { Logger } from "../logger.js";
+import { RateLimiter } from "../security/rate-limiter.js";
+import { createServices } from "../services.js";
+import { createCliLogger, parseCommandArgs, type CliCommand } from "./context.js";
+
+export type CheckStatus = "ok" | "warn" | "fail" | "skip";
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface KeyCheckOptions {
+  /** Send the key to the API when it was not accepted recently; this uses one request of its quota */
+  verifyKey: boolean;
+  verifiedKeys: VerifiedKeys;
+}
+
+function describeConfigError(error: unknown): string {
+  if (error instanceof ConfigError) return error.issues.join("; ");
+  return error instanceof Error ? error.message : String(error);
+}
+
+function checkDisplay(detector: BrowserDetector): CheckResult {
+  if (process.platform !== "linux") {
+    return { name: "Display", status: "ok", detail: `not needed on ${process.platform}` };
+  }
+  const env = detector.getDisplayEnv();
+  const display = env.WAYLAND_DISPLAY ? `WAYLAND_DISPLAY=${env.WAYLAND_DISPLAY}` : `DISPLAY=${env.DISPLAY}`;
+  if (!process.env.DISPLAY && !process.env.WAYLAND_DISPLAY) {
+    return {
+      name: "Display",
+      status: "warn",
+      detail: `DISPLAY and WAYLAND_DISPLAY are not set, guessing ${display}; tools may only print URLs to open`,
+    };
+  }
+  return { name: "Display", status: "ok", detail: `${env.XDG_SESSION_TYPE ?? "unknown"} session, ${display}` };
+}
+
+function checkBrowser(detector: BrowserDetector): CheckResult {
+  if (process.platform !== "linux") {
+    return { name: "Browser", status: "ok", detail: "system default browser" };
+  }
+  const browser = detector.getDefaultBrowser();
+  return browser
+    ? { name: "Browser", status: "ok", detail: browser }
+    : { name: "Browser", status: "warn", detail: "no default browser reported by xdg-settings; will try xdg-open" };
+}
+
+async function checkCallbackPort(maxBodySize: number, logger: Logger): Promise<CheckResult> {
+  const rateLimiter = new RateLimiter();
+  const server = new CallbackServer({ maxBodySize, cors: CorsHandler, rateLimiter, logger });
+  try {
+    const port = await server.start();
+    return { name: "Callback port", status: "ok", detail: `bound 127.0.0.1:${port}` };
+  } catch (error) {
+    return { name: "Callback port", status: "fail", detail: error instanceof Error ? error.message : String(error) };
+  } finally {
+    server.cancel();
+    rateLimiter.stopCleanup();
+  }
+}
+
+function describeKey(resolved: ResolvedConfig): string {
+  const origin = resolved.origins.apiKey;
+  return `${maskKey(resolved.config.apiKey)} from ${origin.location ?? origin.source}`;
+}
+
+async function checkApiKey(resolved: ResolvedConfig, httpClient: HttpClient, options: KeyCheckOptions): Promise<CheckResult> {
+  const { verifyKey, verifiedKeys } = options;
+  if (!verifyKey && verifiedKeys.checkedAt(httpClient.getKeyScope()) === null) {
+    return {
+      name: "API key",
+      status: "skip",
+      detail: `${describeKey(resolved)}, not verified; run \`magic doctor --verify-key\` to check it (uses one API request)`,
+    };
+  }
+
+  const result = await validateApiKey(httpClient, { verifiedKeys });
+  switch (result.status) {
+    case "valid":
+      return {
+        name: "API key",
+        status: "ok",
+        detail: `${describeKey(resolved)}, accepted by the API at ${new Date(result.checkedAt).toISOString()}`,
+      };
+    case "invalid":
+      return { name: "API key", status: "fail", detail: `${describeKey(resolved)}: ${result.message}` };
+    case "unknown":
+      return { name: "API key", status: "warn", detail: `${describeKey(resolved)}, not verified: ${result.message}` };
+  }
+}
+
+async function checkApi(resolved: ResolvedConfig, logger: Logger, keyCheck: KeyCheckOptions): Promise<CheckResult[]> {
+  const { config } = resolved;
+  let services: ReturnType<typeof createServices>;
+  try {
+    // One attempt is enough for a diagnosis, and cached answers would hide problems
+    services = createServices({ ...config, maxRetries: 0, cacheTtl: 0 }, logger);
+  } catch (error) {
+    return [{ name: "API", status: "fail", detail: describeConfigError(error) }];
+  }
+
+  const results: CheckResult[] = [];
+  const proxy = services.outbound.getProxyFor(config.apiUrl);
+  results.push({
+    name: "Proxy",
+    status: "ok",
+    detail: proxy ? `${config.apiUrl} via ${new URL(proxy).host}` : "direct connection",
+  });
+
+  const startTime = Date.now();
+  const response = await services.httpClient.get("/health", { cache: false, schema: HealthResponseSchema });
+  const latency = Date.now() - startTime;
+
+  if (response.ok) {
+    results.push({ name: "API", status: latency > 2000 ? "warn" : "ok", detail: `${config.apiUrl} answered in ${latency}ms` });
+    results.push(await checkApiKey(resolved, services.httpClient, keyCheck));
+  } else {
+    const { error } = response;
+    const reachable = error.status > 0 && error.status < 500;
+    results.push({
+      name: "API",
+      status: reachable ? "warn" : "fail",
+      detail: `${config.apiUrl}/health: ${error.kind}${error.status > 0 ? ` (HTTP ${error.status})` : ""}${error.causeMessage ? ` - ${error.causeMessage}` : ""}`,
+    });
+    results.push({ name: "API key", status: "skip", detail: `${describeKey(resolved)}, not verified while the API is unreachable` });
+  }
+  return results;
+}
+
+export async function runChecks(
+  resolved: ResolvedConfig | null,
+  configError: unknown,
+  logger: Logger,
+  keyCheck: KeyCheckOptions
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+
+  if (resolved) {
+    results.push({ name: "Config", status: "ok", detail: "valid" });
+  } else {
+    results.push({ name: "Config", status: "fail", detail: describeConfigError(configError) });
+  }
+
+  const detector = new BrowserDetector(logger);
+  results.push(checkDisplay(detector), checkBrowser(detector));
+  results.push(await checkCallbackPort(resolved?.config.maxBodySize ?? 1_048_576, logger));
+
+  if (resolved) {
+    results.push(...(await checkApi(resolved, logger, keyCheck)));
+  } else {
+    results.push({ name: "API", status: "skip", detail: "fix the config first" });
+  }
+  return results;
+}
+
+export const doctorCommand: CliCommand = {
+  summary: "Check the API key, display and browser detection, callback port and API reachability",
+  usage: "magic doctor [--json] [--verify-key]",
+
+  async run(args, ctx) {
+    const { values } = parseCommandArgs(args, {
+      json: { type: "boolean", default: false },
+      "verify-key": { type: "boolean", default: false },
+    });
+
+    let resolved: ResolvedConfig | null = null;
+    let configError: unknown;
+    try {
+      resolved = resolveConfig(ctx.configOptions);
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
+      configError = error;
+    }
+
+    const logger = resolved ? createCliLogger(resolved) : new Logger("warn");
+    const { userConfigDir, env } = ctx.configOptions;
+    const results = await runChecks(resolved, configError, logger, {
+      verifyKey: values["verify-key"],
+      verifiedKeys: new VerifiedKeys(userConfigDir ?? getUserConfigDir(env)),
+    });
+
+    if (values.json) {
+      ctx.write(`${JSON.stringify(results, null, 2)}\n`);
+    } else {
+      for (const { name, status, detail } of results) {
+        ctx.write(`${`[${status}]`.padEnd(7)} ${name}: ${detail}\n`);
+      }
+    }
+    return results.some((result) => result.status === "fail") ? 1 : 0;
+  },
+};
@@ -0,0 +1,57 @@
+import { callCommand } from "./call.command.js";
+import { configCommand } from "./config.command.js";
+import { doctorCommand } from "./doctor.command.js";
+import { loginCommand, logoutCommand } from "./login.command.js";
+import { logoCommand } from "./logo.command.js";
+import { readSecret } from "./prompt.js";
+import { UsageError, type CliCommand, type CliContext } from "./context.js";
+
+export const COMMANDS: Record<string, CliCommand> = {
+  doctor: doctorCommand,
+  config: configCommand,
+  login: loginCommand,
+  logout: logoutCommand,
+  logo: logoCommand,
+  call: callCommand,
+};
+
+export function isCommand(name: string | undefined): boolean {
+  return name === "help" || name === "--help" || (name !== undefined && name in COMMANDS);
+}
+
+function usage(): string {
+  const rows: Array<[string, string]> = [
+    ["magic [config arguments]", "Start the MCP server"],
+    ...Object.values(COMMANDS).map((command): [string, string] => [command.usage, command.summary]),
+  ];
+  const width = Math.max(...rows.map(([usage]) => usage.length));
+  return `Usage:
+${rows.map(([usage, summary]) => `  ${usage.padEnd(width)}  ${summary}`).join("\n")}
+
+Config arguments such as API_KEY=... or --debug work with every command.
+`;
+}
+
+const processContext: CliContext = {
+  configOptions: {},
+  write: (text) => process.stdout.write(text),
+  error: (text) => process.stderr.write(text),
+  readSecret,
+};
+
+/** Runs a subcommand and returns its exit code. */
+export async function runCommand(name: string, args: string[], ctx: CliContext = processContext): Promise<number> {
+  const command = COMMANDS[name];
+  if (!command) {
+    ctx.write(usage());
+    return 0;
+  }
+
+  try {
+    return await command.run(args, ctx);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    ctx.error(`${error.message}\nUsage: ${command.usage}\n`);
+    return 2;
+  }
+}
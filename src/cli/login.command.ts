@@ -0,0 +1,113 @@
+import { ConfigError, getUserConfigDir, resolveConfig, selectProfile } from "../config.js";
+import { VerifiedKeys, validateApiKey } from "../http/key-validator.js";
+import { maskKey } from "../http/quota-tracker.js";
+import { CredentialsStore } from "../security/credentials-store.js";
+import { PromptCancelledError } from "./prompt.js";
+import { createServices } from "../services.js";
+import { createCliLogger, loadConfig, parseCommandArgs, type CliCommand, type CliContext } from "./context.js";
+
+function userConfigDir(ctx: CliContext): string {
+  const { userConfigDir, env } = ctx.configOptions;
+  return userConfigDir ?? getUserConfigDir(env);
+}
+
+function credentialsStore(ctx: CliContext): CredentialsStore {
+  return new CredentialsStore(userConfigDir(ctx));
+}
+
+/** The --profile / MAGIC_PROFILE selection, or null (after printing why) when the config files are unreadable. */
+function loadProfile(ctx: CliContext): { name: string | undefined } | null {
+  try {
+    return { name: selectProfile(ctx.configOptions) };
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    ctx.error(`${error.message}\n`);
+    return null;
+  }
+}
+
+/** Where the key in effect comes from when it is not the credentials file, e.g. "env API_KEY". */
+function overridingSource(ctx: CliContext): string | null {
+  try {
+    const origin = resolveConfig(ctx.configOptions).origins.apiKey;
+    return origin.source === "credentials" ? null : `${origin.source} ${origin.location}`;
+  } catch (error) {
+    if (error instanceof ConfigError) return null;
+    throw error;
+  }
+}
+
+export const loginCommand: CliCommand = {
+  summary: "Check an API key and store it in a file only you can read",
+  usage: "magic login [--profile <name>] [--no-verify]",
+
+  async run(args, ctx) {
+    const { values } = parseCommandArgs(args, { "no-verify": { type: "boolean", default: false } });
+    const profile = loadProfile(ctx);
+    if (!profile) return 1;
+
+    let apiKey: string;
+    try {
+      apiKey = await ctx.readSecret("21st.dev API key (https://21st.dev/magic/console): ");
+    } catch (error) {
+      if (!(error instanceof PromptCancelledError)) throw error;
+      ctx.error("Cancelled. Nothing was saved.\n");
+      // The shell convention for a command stopped with Ctrl+C
+      return 130;
+    }
+    if (!apiKey) {
+      ctx.error("No API key entered.\n");
+      return 1;
+    }
+
+    if (!values["no-verify"]) {
+      // Validate with the rest of the config (API URL, proxy, CA) as it will be used
+      const resolved = loadConfig({
+        ...ctx,
+        configOptions: { ...ctx.configOptions, env: { ...(ctx.configOptions.env ?? process.env), TWENTY_FIRST_API_KEY: apiKey } },
+      });
+      if (!resolved) return 1;
+
+      const { httpClient } = createServices({ ...resolved.config, apiKey, maxRetries: 0, cacheTtl: 0 }, createCliLogger(resolved));
+      const result = await validateApiKey(httpClient, { verifiedKeys: new VerifiedKeys(userConfigDir(ctx)) });
+      if (result.status === "invalid") {
+        ctx.error(`${result.message}\nNothing was saved.\n`);
+        return 1;
+      }
+      if (result.status === "unknown") {
+        ctx.error(`${result.message}\nSaving the key anyway.\n`);
+      }
+    }
+
+    const store = credentialsStore(ctx);
+    store.save(apiKey, profile.name);
+    const forProfile = profile.name ? ` for profile ${profile.name}` : "";
+    ctx.write(`Saved API key ${maskKey(apiKey)}${forProfile} to ${store.filePath} (readable only by you).\n`);
+
+    const override = overridingSource(ctx);
+    if (override) {
+      ctx.error(`Note: the API key from ${override} still takes precedence over the saved one.\n`);
+    }
+    return 0;
+  },
+};
+
+export const logoutCommand: CliCommand = {
+  summary: "Delete the API key stored by magic login",
+  usage: "magic logout [--profile <name>]",
+
+  async run(args, ctx) {
+    parseCommandArgs(args, {});
+    const profile = loadProfile(ctx);
+    if (!profile) return 1;
+
+    const store = credentialsStore(ctx);
+    const forProfile = profile.name ? ` for profile ${profile.name}` : "";
+    ctx.write(
+      store.remove(profile.name)
+        ? `Removed the API key${forProfile} from ${store.filePath}.\n`
+        : `No stored API key${forProfile} in ${store.filePath}.\n`
+    );
+    return 0;
+  },
+};
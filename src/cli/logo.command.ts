@@ -0,0 +1,26 @@
+import { LogoSearchTool } from "../tools/logo-search.tool.js";
+import { createServices } from "../services.js";
+import { createCliLogger, loadConfig, parseCommandArgs, printToolResponse, UsageError, type CliCommand } from "./context.js";
+
+const FORMATS = { jsx: "JSX", tsx: "TSX", svg: "SVG" } as const;
+
+export const logoCommand: CliCommand = {
+  summary: "Search svgl for logos and print them as JSX, TSX or SVG",
+  usage: "magic logo <name...> [--format jsx|tsx|svg]",
+
+  async run(args, ctx) {
+    const { values, positionals } = parseCommandArgs(args, { format: { type: "string", default: "tsx" } });
+    const format = FORMATS[values.format.toLowerCase() as keyof typeof FORMATS];
+    if (!format) throw new UsageError(`Unknown format "${values.format}"; use jsx, tsx or svg`);
+    if (positionals.length === 0) throw new UsageError("Name at least one company, e.g. magic logo github");
+
+    const resolved = loadConfig(ctx);
+    if (!resolved) return 1;
+
+    const logger = createCliLogger(resolved);
+    const { outbound } = createServices(resolved.config, logger);
+    const tool = new LogoSearchTool({ outbound, logger, config: resolved.config });
+
+    return printToolResponse(await tool.run({ queries: positionals, format }), ctx);
+  },
+};
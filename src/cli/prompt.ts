@@ -0,0 +1,46 @@
+export class PromptCancelledError extends Error {
+  constructor() {
+    super("Cancelled");
+    this.name = "PromptCancelledError";
+  }
+}
+
+/**
+ * Reads a secret without echoing it. On a terminal it prompts and reads one
+ * line in raw mode; otherwise (piped input) it reads all of stdin.
+ */
+export async function readSecret(prompt: string): Promise<string> {
+  const { stdin, stderr } = process;
+
+  if (!stdin.isTTY) {
+    let input = "";
+    for await (const chunk of stdin) input += chunk;
+    return input.trim();
+  }
+
+  stderr.write(prompt);
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf-8");
+  stdin.resume();
+
+  return new Promise((resolve, reject) => {
+    let value = "";
+    const finish = (error?: Error) => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stderr.write("\n");
+      if (error) reject(error);
+      else resolve(value.trim());
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n") return finish();
+        if (char === "\u0003") return finish(new PromptCancelledError());
+        if (char === "\u007f" || char === "\b") value = value.slice(0, -1);
+        else if (char >= " ") value += char;
+      }
+    };
+    stdin.on("data", onData);
+  });
+}
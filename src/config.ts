@@ -1,9 +1,27 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import * as path from "node:path";
 import { z } from "zod";
+import { CredentialsError, CredentialsStore } from "./security/credentials-store.js";
 
 const LogLevelEnum = z.enum(["debug", "info", "warn", "error"]);
+const TransportEnum = z.enum(["stdio", "http"]);
+const HttpUrl = z.url({ protocol: /^https?$/ });
+// Base URLs are joined with paths, so a trailing slash would double up
+const BaseUrl = HttpUrl.transform((url) => url.replace(/\/+$/, ""));
+
+export const DEFAULT_API_URL = "https://magic.21st.dev";
+/** Used when DEBUG is on and no apiUrl is configured, matching `bun run mock` */
+export const DEBUG_API_URL = "http://localhost:3005";
 
 const ConfigSchema = z.object({
-  apiKey: z.string().min(1, "API key is required"),
+  apiKey: z.string({ error: "API key is required" }).min(1, "API key is required"),
+  /** File holding the API key, e.g. a Docker or Kubernetes secret; read into apiKey */
+  apiKeyFile: z.string().min(1).optional(),
+  /** Check the API key against the API at startup and log a clear error if it is rejected */
+  validateKey: z.boolean().default(false),
+  /** Named profile from the config files' "profiles" map applied on top of the files' base values */
+  profile: z.string().min(1).optional(),
   logLevel: LogLevelEnum.default("info"),
   timeout: z.number().int().positive().default(30_000),
   maxFileSize: z.number().int().positive().default(1_048_576),
@@ -11,87 +29,524 @@ const ConfigSchema = z.object({
   debug: z.boolean().default(false),
   canvas: z.boolean().default(false),
   github: z.boolean().default(false),
+  /** Send the detected framework, Tailwind, shadcn and icon setup with generation requests */
+  projectContext: z.boolean().default(true),
+  /** Directory tools may write generated components into; apply mode is off until it is set */
+  workspaceRoot: z.string().min(1).optional(),
+  transport: TransportEnum.default("stdio"),
+  host: z.string().min(1).default("127.0.0.1"),
+  port: z.number().int().min(0).max(65_535).default(3333),
+  jobTtl: z.number().int().positive().default(900_000),
+  tools: z.record(z.string(), z.boolean()).default({}),
+  cacheTtl: z.number().int().min(0).default(300),
+  cacheMaxEntries: z.number().int().positive().default(100),
+  cacheMaxBytes: z.number().int().positive().default(5 * 1_048_576),
+  cacheFile: z.string().min(1).optional(),
+  breakerThreshold: z.number().int().positive().default(5),
+  breakerCooldown: z.number().int().positive().default(30_000),
+  retryAfterBudget: z.number().int().min(0).default(30_000),
+  maxRetries: z.number().int().min(0).max(10).default(3),
+  retryBaseDelay: z.number().int().min(0).default(1_000),
+  retryMaxDelay: z.number().int().min(0).default(8_000),
+  retryJitter: z.number().int().min(0).default(500),
+  apiUrl: BaseUrl.default(DEFAULT_API_URL),
+  svglUrl: BaseUrl.default("https://api.svgl.app"),
+  webUrl: BaseUrl.default("https://21st.dev"),
+  httpProxy: HttpUrl.optional(),
+  httpsProxy: HttpUrl.optional(),
+  noProxy: z.string().optional(),
+  caFile: z.string().min(1).optional(),
 });
 
 export type Config = Readonly<z.infer<typeof ConfigSchema>>;
 
-function parseCliArgs(): Partial<Record<string, string | boolean>> {
-  const result: Partial<Record<string, string | boolean>> = {};
+type ConfigKey = keyof z.infer<typeof ConfigSchema>;
 
-  for (const arg of process.argv) {
-    if (arg === "--canvas") {
-      result.canvas = true;
-      continue;
-    }
-    if (arg === "--github") {
-      result.github = true;
+export type ConfigSource = "cli" | "env" | "profile" | "project" | "user" | "credentials" | "default";
+
+export interface ConfigOrigin {
+  source: ConfigSource;
+  /** CLI argument, environment variable name or config file path */
+  location?: string;
+}
+
+export interface ResolvedConfig {
+  config: Config;
+  origins: Record<ConfigKey, ConfigOrigin>;
+}
+
+export interface ConfigOptions {
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  userConfigDir?: string;
+}
+
+interface ConfigLayer {
+  source: ConfigSource;
+  values: Record<string, unknown>;
+  locations: Record<string, string>;
+}
+
+export const CONFIG_FILE_NAMES = ["magic.config.json", ".magicrc", ".magicrc.json"];
+
+const CLI_FLAGS: Record<string, [ConfigKey, unknown]> = {
+  "--canvas": ["canvas", true],
+  "--github": ["github", true],
+  "--debug": ["debug", true],
+  "--http": ["transport", "http"],
+  "--validate-key": ["validateKey", true],
+  "--no-project-context": ["projectContext", false],
+};
+
+const CLI_KEYS: Record<string, ConfigKey> = {
+  API_KEY: "apiKey",
+  API_KEY_FILE: "apiKeyFile",
+  LOG_LEVEL: "logLevel",
+  TIMEOUT: "timeout",
+  MAX_FILE_SIZE: "maxFileSize",
+  MAX_BODY_SIZE: "maxBodySize",
+  TRANSPORT: "transport",
+  HOST: "host",
+  PORT: "port",
+  JOB_TTL: "jobTtl",
+  DISABLED_TOOLS: "tools",
+  CACHE_TTL: "cacheTtl",
+  CACHE_MAX_ENTRIES: "cacheMaxEntries",
+  CACHE_MAX_BYTES: "cacheMaxBytes",
+  CACHE_FILE: "cacheFile",
+  BREAKER_THRESHOLD: "breakerThreshold",
+  BREAKER_COOLDOWN: "breakerCooldown",
+  RETRY_AFTER_BUDGET: "retryAfterBudget",
+  MAX_RETRIES: "maxRetries",
+  RETRY_BASE_DELAY: "retryBaseDelay",
+  RETRY_MAX_DELAY: "retryMaxDelay",
+  RETRY_JITTER: "retryJitter",
+  API_URL: "apiUrl",
+  SVGL_URL: "svglUrl",
+  WEB_URL: "webUrl",
+  HTTP_PROXY: "httpProxy",
+  HTTPS_PROXY: "httpsProxy",
+  NO_PROXY: "noProxy",
+  CA_FILE: "caFile",
+  WORKSPACE_ROOT: "workspaceRoot",
+};
+
+// Earlier entries win when several variables map to the same key
+const ENV_KEYS: Array<[ConfigKey, string]> = [
+  ["apiKey", "TWENTY_FIRST_API_KEY"],
+  ["apiKey", "API_KEY"],
+  ["apiKeyFile", "TWENTY_FIRST_API_KEY_FILE"],
+  ["validateKey", "MAGIC_VALIDATE_KEY"],
+  ["profile", "MAGIC_PROFILE"],
+  ["projectContext", "MAGIC_PROJECT_CONTEXT"],
+  ["workspaceRoot", "MAGIC_WORKSPACE_ROOT"],
+  ["logLevel", "LOG_LEVEL"],
+  ["timeout", "TWENTY_FIRST_TIMEOUT"],
+  ["maxFileSize", "MAX_FILE_SIZE"],
+  ["maxBodySize", "MAX_BODY_SIZE"],
+  ["debug", "DEBUG"],
+  ["transport", "MAGIC_TRANSPORT"],
+  ["host", "MAGIC_HOST"],
+  ["port", "MAGIC_PORT"],
+  ["jobTtl", "MAGIC_JOB_TTL"],
+  ["tools", "MAGIC_DISABLED_TOOLS"],
+  ["cacheTtl", "CACHE_TTL"],
+  ["cacheMaxEntries", "MAGIC_CACHE_MAX_ENTRIES"],
+  ["cacheMaxBytes", "MAGIC_CACHE_MAX_BYTES"],
+  ["cacheFile", "MAGIC_CACHE_FILE"],
+  ["breakerThreshold", "MAGIC_BREAKER_THRESHOLD"],
+  ["breakerCooldown", "MAGIC_BREAKER_COOLDOWN"],
+  ["retryAfterBudget", "MAGIC_RETRY_AFTER_BUDGET"],
+  ["maxRetries", "MAGIC_MAX_RETRIES"],
+  ["retryBaseDelay", "MAGIC_RETRY_BASE_DELAY"],
+  ["retryMaxDelay", "MAGIC_RETRY_MAX_DELAY"],
+  ["retryJitter", "MAGIC_RETRY_JITTER"],
+  ["apiUrl", "MAGIC_API_URL"],
+  ["svglUrl", "MAGIC_SVGL_URL"],
+  ["webUrl", "MAGIC_WEB_URL"],
+  ["httpProxy", "HTTP_PROXY"],
+  ["httpProxy", "http_proxy"],
+  ["httpsProxy", "HTTPS_PROXY"],
+  ["httpsProxy", "https_proxy"],
+  ["noProxy", "NO_PROXY"],
+  ["noProxy", "no_proxy"],
+  ["caFile", "MAGIC_CA_FILE"],
+];
+
+const NUMERIC_KEYS = new Set<ConfigKey>([
+  "timeout",
+  "maxFileSize",
+  "maxBodySize",
+  "port",
+  "jobTtl",
+  "cacheTtl",
+  "cacheMaxEntries",
+  "cacheMaxBytes",
+  "breakerThreshold",
+  "breakerCooldown",
+  "retryAfterBudget",
+  "maxRetries",
+  "retryBaseDelay",
+  "retryMaxDelay",
+  "retryJitter",
+]);
+
+const BOOLEAN_KEYS = new Set<ConfigKey>(["debug", "validateKey", "projectContext"]);
+
+// A project config file comes with whatever repository the server is started in,
+// so it must not pick the API key, decide where and through what requests carrying it are
+// sent, or choose where generated components may be written
+const USER_ONLY_KEYS = new Set<string>([
+  "apiKey",
+  "apiKeyFile",
+  "apiUrl",
+  "webUrl",
+  "httpProxy",
+  "httpsProxy",
+  "noProxy",
+  "caFile",
+  "workspaceRoot",
+]);
+
+const CLI_PATTERNS = [
+  /^([A-Z_]+)=(.+)$/,
+  /^--([A-Z_]+)=(.+)$/,
+  /^\/([A-Z_]+):(.+)$/,
+  /^-([A-Z_]+)[ =](.+)$/,
+];
+
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+function coerce(key: ConfigKey, value: string): unknown {
+  if (NUMERIC_KEYS.has(key)) return Number(value);
+  if (BOOLEAN_KEYS.has(key)) return value === "true";
+  // Comma-separated tool names become { name: false } entries
+  if (key === "tools") {
+    return Object.fromEntries(
+      value.split(",").map((name) => name.trim()).filter(Boolean).map((name) => [name, false])
+    );
+  }
+  return value;
+}
+
+/** True for command line arguments that set config values, so subcommands can skip them. */
+export function isConfigArg(arg: string): boolean {
+  if (arg in CLI_FLAGS || arg.startsWith("--profile=")) return true;
+  const pattern = CLI_PATTERNS.find((candidate) => candidate.test(arg));
+  return pattern !== undefined && arg.match(pattern)![1] in CLI_KEYS;
+}
+
+/** A subcommand's arguments without the ones parseConfig consumes, including `--profile <name>`. */
+export function withoutConfigArgs(args: string[]): string[] {
+  return args.filter((arg, index) => !isConfigArg(arg) && arg !== "--profile" && args[index - 1] !== "--profile");
+}
+
+function parseCliArgs(argv: string[]): ConfigLayer {
+  const layer: ConfigLayer = { source: "cli", values: {}, locations: {} };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+
+    // `--profile team` and `--profile=team`, in the usual lowercase flag style
+    const profile = arg === "--profile" ? argv[++index] : arg.startsWith("--profile=") ? arg.slice(10) : undefined;
+    if (profile !== undefined) {
+      layer.values.profile = profile;
+      layer.locations.profile = "--profile";
       continue;
     }
-    if (arg === "--debug") {
-      result.debug = true;
+
+    const flag = CLI_FLAGS[arg];
+    if (flag) {
+      const [key, value] = flag;
+      layer.values[key] = value;
+      layer.locations[key] = arg;
       continue;
     }
 
-    const patterns = [
-      /^([A-Z_]+)=(.+)$/,
-      /^--([A-Z_]+)=(.+)$/,
-      /^\/([A-Z_]+):(.+)$/,
-      /^-([A-Z_]+)[ =](.+)$/,
-    ];
-
-    for (const pattern of patterns) {
+    for (const pattern of CLI_PATTERNS) {
       const match = arg.match(pattern);
       if (match) {
-        const [, key, value] = match;
-        const cleanValue = value.replaceAll('"', "").replaceAll("'", "");
-        if (key === "API_KEY") result.apiKey = cleanValue;
-        if (key === "LOG_LEVEL") result.logLevel = cleanValue;
-        if (key === "TIMEOUT") result.timeout = cleanValue;
-        if (key === "MAX_FILE_SIZE") result.maxFileSize = cleanValue;
-        if (key === "MAX_BODY_SIZE") result.maxBodySize = cleanValue;
+        const [, name, value] = match;
+        const key = CLI_KEYS[name];
+        if (key) {
+          const cleanValue = value.replaceAll('"', "").replaceAll("'", "");
+          layer.values[key] = coerce(key, cleanValue);
+          layer.locations[key] = name;
+        }
         break;
       }
     }
   }
 
-  return result;
-}
-
-export function parseConfig(): Config {
-  const cli = parseCliArgs();
-
-  const raw = {
-    apiKey:
-      (cli.apiKey as string) ??
-      process.env.TWENTY_FIRST_API_KEY ??
-      process.env.API_KEY ??
-      "",
-    logLevel:
-      (cli.logLevel as string) ?? process.env.LOG_LEVEL ?? "info",
-    timeout:
-      cli.timeout != null
-        ? Number(cli.timeout)
-        : process.env.TWENTY_FIRST_TIMEOUT != null
-          ? Number(process.env.TWENTY_FIRST_TIMEOUT)
-          : 30_000,
-    maxFileSize:
-      cli.maxFileSize != null
-        ? Number(cli.maxFileSize)
-        : process.env.MAX_FILE_SIZE != null
-          ? Number(process.env.MAX_FILE_SIZE)
-          : 1_048_576,
-    maxBodySize:
-      cli.maxBodySize != null
-        ? Number(cli.maxBodySize)
-        : process.env.MAX_BODY_SIZE != null
-          ? Number(process.env.MAX_BODY_SIZE)
-          : 1_048_576,
-    debug:
-      (cli.debug as boolean) ?? process.env.DEBUG === "true",
-    canvas: (cli.canvas as boolean) ?? false,
-    github: (cli.github as boolean) ?? false,
+  return layer;
+}
+
+function parseEnv(env: NodeJS.ProcessEnv): ConfigLayer {
+  const layer: ConfigLayer = { source: "env", values: {}, locations: {} };
+
+  for (const [key, name] of ENV_KEYS) {
+    const value = env[name];
+    if (value == null || key in layer.values) continue;
+    layer.values[key] = coerce(key, value);
+    layer.locations[key] = name;
+  }
+
+  return layer;
+}
+
+function findConfigFile(dir: string): string | null {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(dir, name);
+    if (existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+function readConfigFile(source: ConfigSource, dir: string): ConfigLayer | null {
+  const filePath = findConfigFile(dir);
+  if (!filePath) return null;
+
+  let values: unknown;
+  try {
+    values = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError([`${filePath}: not valid JSON (${message})`]);
+  }
+
+  if (!isPlainObject(values)) {
+    throw new ConfigError([`${filePath}: expected a JSON object at the top level`]);
+  }
+
+  const locations: Record<string, string> = {};
+  for (const key of Object.keys(values)) locations[key] = filePath;
+  return { source, values, locations };
+}
+
+function rejectUserOnlyKeys(values: Record<string, unknown>, prefix: string, filePath: string): void {
+  const issues = Object.keys(values)
+    .filter((key) => USER_ONLY_KEYS.has(key))
+    .map(
+      (key) =>
+        `${prefix}${key}: not allowed in a project config file; set it in the user config file, the environment or on the command line (from config file ${filePath})`
+    );
+  if (issues.length > 0) throw new ConfigError(issues);
+}
+
+// A key file stands in for the key at the same precedence, as with Docker and Kubernetes secrets
+function readApiKeyFile(layer: ConfigLayer): void {
+  const filePath = layer.values.apiKeyFile;
+  if (typeof filePath !== "string" || layer.values.apiKey !== undefined) return;
+
+  const origin = { source: layer.source, location: layer.locations.apiKeyFile };
+  try {
+    layer.values.apiKey = readFileSync(filePath, "utf-8").trim();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError([`apiKeyFile: cannot read ${filePath} (${message}) (${describeOrigin(origin)})`]);
+  }
+  layer.locations.apiKey = `${layer.locations.apiKeyFile} -> ${filePath}`;
+}
+
+/**
+ * Builds the layer for the selected profile from the "profiles" maps of the
+ * config files; the project file's entry overrides the user file's key by key.
+ */
+function readProfile(name: string, fileLayers: ConfigLayer[], origin: ConfigOrigin): ConfigLayer {
+  const layer: ConfigLayer = { source: "profile", values: {}, locations: {} };
+  const available = new Set<string>();
+  let found = false;
+
+  // Lowest precedence first so the project file's entry is applied last
+  for (const fileLayer of [...fileLayers].reverse()) {
+    const profiles = fileLayer.values.profiles;
+    if (profiles === undefined) continue;
+    const filePath = fileLayer.locations.profiles;
+    if (!isPlainObject(profiles)) {
+      throw new ConfigError([`profiles: expected an object of named profiles (from config file ${filePath})`]);
+    }
+    Object.keys(profiles).forEach((key) => available.add(key));
+
+    const profile = profiles[name];
+    if (profile === undefined) continue;
+    if (!isPlainObject(profile)) {
+      throw new ConfigError([`profiles.${name}: expected an object (from config file ${filePath})`]);
+    }
+    if ("profile" in profile || "profiles" in profile) {
+      throw new ConfigError([`profiles.${name}: a profile cannot select or define profiles (from config file ${filePath})`]);
+    }
+
+    if (fileLayer.source === "project") rejectUserOnlyKeys(profile, `profiles.${name}.`, filePath);
+    found = true;
+    for (const [key, value] of Object.entries(profile)) {
+      layer.values[key] = isPlainObject(value) && isPlainObject(layer.values[key]) ? { ...layer.values[key], ...value } : value;
+      layer.locations[key] = `${name} in ${filePath}`;
+    }
+  }
+
+  if (!found) {
+    const names = available.size > 0 ? `available: ${[...available].sort().join(", ")}` : "no profiles are defined";
+    throw new ConfigError([`profile: unknown profile "${name}" (${describeOrigin(origin)}; ${names})`]);
+  }
+  return layer;
+}
+
+function readCredentials(dir: string, profile: string | undefined): ConfigLayer | null {
+  const store = new CredentialsStore(dir);
+  let apiKey: string | null;
+  let location = store.filePath;
+  try {
+    // A profile without its own stored key uses the default one, like any other profile value
+    apiKey = profile ? store.read(profile) : null;
+    if (apiKey !== null) location = `${store.filePath} (profile ${profile})`;
+    else apiKey = store.read();
+  } catch (error) {
+    if (error instanceof CredentialsError) throw new ConfigError([`apiKey: ${error.message}`]);
+    throw error;
+  }
+  if (apiKey === null) return null;
+  return { source: "credentials", values: { apiKey }, locations: { apiKey: location } };
+}
+
+export function getUserConfigDir(env: NodeJS.ProcessEnv = process.env): string {
+  const base = env.XDG_CONFIG_HOME || path.join(env.HOME || homedir(), ".config");
+  return path.join(base, "magic");
+}
+
+/** The filesystem root or the home directory: too broad to read project files from or for apply mode to write into. */
+export function isBroadWorkspaceRoot(workspaceRoot: string, cwd: string, home: string): boolean {
+  const resolved = path.resolve(cwd, workspaceRoot);
+  return resolved === path.parse(resolved).root || resolved === path.resolve(home);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeOrigin(origin: ConfigOrigin | undefined): string {
+  switch (origin?.source) {
+    case "cli":
+      return `from command line argument ${origin.location}`;
+    case "env":
+      return `from environment variable ${origin.location}`;
+    case "project":
+    case "user":
+      return `from config file ${origin.location}`;
+    case "profile":
+      return `from profile ${origin.location}`;
+    case "credentials":
+      return `from credentials file ${origin.location}`;
+    default:
+      return "not set in CLI, environment or config files";
+  }
+}
+
+function findProfileLayer(layers: ConfigLayer[]): ConfigLayer | undefined {
+  return layers.find((layer) => typeof layer.values.profile === "string" && layer.values.profile !== "");
+}
+
+/** The profile `resolveConfig` would select, without requiring the rest of the config to be valid. */
+export function selectProfile(options: ConfigOptions = {}): string | undefined {
+  const env = options.env ?? process.env;
+  const layers = [
+    parseCliArgs(options.argv ?? process.argv),
+    parseEnv(env),
+    readConfigFile("project", options.cwd ?? process.cwd()),
+    readConfigFile("user", options.userConfigDir ?? getUserConfigDir(env)),
+  ].filter((layer): layer is ConfigLayer => layer !== null);
+  return findProfileLayer(layers)?.values.profile as string | undefined;
+}
+
+export function resolveConfig(options: ConfigOptions = {}): ResolvedConfig {
+  const env = options.env ?? process.env;
+  const userConfigDir = options.userConfigDir ?? getUserConfigDir(env);
+
+  // Highest precedence first: CLI > env > profile > project file > user file > `magic login` credentials
+  const fileLayers = [
+    readConfigFile("project", options.cwd ?? process.cwd()),
+    readConfigFile("user", userConfigDir),
+  ].filter((layer): layer is ConfigLayer => layer !== null);
+  const projectLayer = fileLayers.find((layer) => layer.source === "project");
+  if (projectLayer) rejectUserOnlyKeys(projectLayer.values, "", Object.values(projectLayer.locations)[0]);
+  const layers = [parseCliArgs(options.argv ?? process.argv), parseEnv(env), ...fileLayers];
+
+  const profileLayer = findProfileLayer(layers);
+  const profile = profileLayer?.values.profile as string | undefined;
+  if (profile) {
+    const origin = { source: profileLayer!.source, location: profileLayer!.locations.profile };
+    layers.splice(2, 0, readProfile(profile, fileLayers, origin));
+  }
+  // "profiles" only holds the profile definitions; the selected one is its own layer now
+  for (const layer of fileLayers) delete layer.values.profiles;
+
+  for (const layer of layers) readApiKeyFile(layer);
+
+  // Only consulted when nothing else sets the key, so a broken credentials file can be overridden
+  if (!layers.some((layer) => layer.values.apiKey !== undefined)) {
+    const credentials = readCredentials(userConfigDir, profile);
+    if (credentials) layers.push(credentials);
+  }
+
+  const raw: Record<string, unknown> = {};
+  const origins: Partial<Record<string, ConfigOrigin>> = {};
+
+  for (const layer of [...layers].reverse()) {
+    for (const [key, value] of Object.entries(layer.values)) {
+      if (value === undefined) continue;
+      // Object-valued keys merge across layers so e.g. a project file can extend a user file
+      raw[key] = isPlainObject(value) && isPlainObject(raw[key]) ? { ...raw[key], ...value } : value;
+      origins[key] = { source: layer.source, location: layer.locations[key] };
+    }
+  }
+
+  const result = ConfigSchema.strict()
+    .refine((config) => config.retryBaseDelay <= config.retryMaxDelay, {
+      path: ["retryBaseDelay"],
+      message: "must not exceed retryMaxDelay",
+    })
+    .refine(
+      (config) =>
+        !config.workspaceRoot ||
+        !isBroadWorkspaceRoot(config.workspaceRoot, options.cwd ?? process.cwd(), env.HOME || homedir()),
+      { path: ["workspaceRoot"], message: "must be a project directory, not the filesystem root or the home directory" }
+    )
+    .safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(
+      result.error.issues.flatMap((issue) => {
+        if (issue.code === "unrecognized_keys") {
+          return issue.keys.map((key) => `${key}: unknown option (${describeOrigin(origins[key])})`);
+        }
+        const key = issue.path.join(".") || "(root)";
+        return [`${key}: ${issue.message} (${describeOrigin(origins[String(issue.path[0])])})`];
+      })
+    );
+  }
+
+  // DEBUG used to be the only way to reach a local API; keep that unless apiUrl is set explicitly
+  if (result.data.debug && !origins.apiUrl) {
+    result.data.apiUrl = DEBUG_API_URL;
+  }
+
+  for (const key of Object.keys(result.data)) {
+    origins[key] ??= { source: "default" };
+  }
+
+  return {
+    config: Object.freeze(result.data),
+    origins: origins as Record<ConfigKey, ConfigOrigin>,
   };
+}
 
-  const parsed = ConfigSchema.parse(raw);
-  return Object.freeze(parsed);
+export function parseConfig(options?: ConfigOptions): Config {
+  return resolveConfig(options).config;
 }
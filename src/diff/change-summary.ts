@@ -0,0 +1,86 @@
+import { parseImports } from "../project/dependency-resolver.js";
+
+/** What changed between two versions of a component, beyond the raw line diff. */
+export interface ChangeSummary {
+  props: { added: string[]; removed: string[] };
+  imports: { added: string[]; removed: string[] };
+  classNames: { added: string[]; removed: string[] };
+}
+
+// Destructured parameters of `function Button({ ... })`, `const Button = ({ ... }) =>` and `forwardRef(({ ... }, ref) =>`
+const DESTRUCTURED_PROPS = /(?:function\s+[A-Z]\w*\s*|(?:const|let)\s+[A-Z]\w*[^=\n]*=[^({\n]*(?:\(\s*)?)\(\s*\{([^}]*)\}/g;
+const PROPS_TYPE = /(?:interface\s+\w*Props\b[^{]*|type\s+\w*Props\s*=[^{]*)\{([^}]*)\}/g;
+const CLASS_NAME = /className\s*=\s*(?:"([^"]*)"|'([^']*)'|\{([^}]*)\})/g;
+const STRING_LITERAL = /["'`]([^"'`]*)["'`]/g;
+
+const MAX_LISTED_CLASSES = 20;
+
+function propNames(code: string): Set<string> {
+  const names = new Set<string>();
+  for (const [, params] of code.matchAll(DESTRUCTURED_PROPS)) {
+    for (const param of params.split(",")) {
+      const name = param.trim().split(/[=:]/)[0].trim();
+      if (/^\w+$/.test(name)) names.add(name);
+    }
+  }
+  for (const [, members] of code.matchAll(PROPS_TYPE)) {
+    for (const [, name] of members.matchAll(/^\s*(?:readonly\s+)?(\w+)\??\s*:/gm)) names.add(name);
+  }
+  return names;
+}
+
+function classNames(code: string): Set<string> {
+  const classes = new Set<string>();
+  for (const [, doubleQuoted, singleQuoted, expression] of code.matchAll(CLASS_NAME)) {
+    const literals =
+      expression === undefined
+        ? [doubleQuoted ?? singleQuoted]
+        : [...expression.matchAll(STRING_LITERAL)]
+            // `size === "sm" && "text-sm"`: the compared value is not a class
+            .filter((match) => !/[=!]==?\s*$/.test(expression.slice(0, match.index)))
+            .map(([, text]) => text);
+    for (const literal of literals) {
+      for (const token of literal.split(/\s+/)) {
+        // Skip template interpolation fragments
+        if (token && !/[${}]/.test(token)) classes.add(token);
+      }
+    }
+  }
+  return classes;
+}
+
+function compare(before: Set<string>, after: Set<string>): { added: string[]; removed: string[] } {
+  return {
+    added: [...after].filter((item) => !before.has(item)),
+    removed: [...before].filter((item) => !after.has(item)),
+  };
+}
+
+export function summarizeChanges(oldCode: string, newCode: string): ChangeSummary {
+  return {
+    props: compare(propNames(oldCode), propNames(newCode)),
+    imports: compare(new Set(parseImports(oldCode)), new Set(parseImports(newCode))),
+    classNames: compare(classNames(oldCode), classNames(newCode)),
+  };
+}
+
+function listChange(label: string, { added, removed }: { added: string[]; removed: string[] }, limit = Infinity): string | null {
+  if (added.length === 0 && removed.length === 0) return null;
+  const list = (items: string[]) =>
+    items.length > limit ? `${items.slice(0, limit).join(", ")} and ${items.length - limit} more` : items.join(", ");
+  const parts = [
+    ...(added.length > 0 ? [`added ${list(added)}`] : []),
+    ...(removed.length > 0 ? [`removed ${list(removed)}`] : []),
+  ];
+  return `- ${label}: ${parts.join("; ")}`;
+}
+
+/** Markdown bullet list of the summary, or a single line when nothing beyond the markup changed. */
+export function formatChangeSummary(summary: ChangeSummary): string {
+  const lines = [
+    listChange("Props", summary.props),
+    listChange("Imports", summary.imports),
+    listChange("Classes", summary.classNames, MAX_LISTED_CLASSES),
+  ].filter((line): line is string => line !== null);
+  return lines.length > 0 ? lines.join("\n") : "- No prop, import or className changes";
+}
@@ -0,0 +1,155 @@
+export interface DiffOp {
+  type: "equal" | "insert" | "delete";
+  line: string;
+}
+
+export interface UnifiedDiffOptions {
+  /** Shown in the `---` header; omit for a new file (`/dev/null`) */
+  oldPath?: string;
+  newPath: string;
+  context?: number;
+}
+
+// Beyond this many changed lines the files have little in common; a full replace is just as readable
+const MAX_EDIT_DISTANCE = 2_000;
+
+export function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/** Line diff of `a` and `b` (Myers' algorithm), with the common prefix and suffix skipped up front. */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const equal = (line: string): DiffOp => ({ type: "equal", line });
+  return [
+    ...a.slice(0, start).map(equal),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(equal),
+  ];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const deleteAll = a.map((line): DiffOp => ({ type: "delete", line }));
+  const insertAll = b.map((line): DiffOp => ({ type: "insert", line }));
+  if (a.length === 0 || b.length === 0) return [...deleteAll, ...insertAll];
+
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m;
+  const v = new Int32Array(2 * offset + 2);
+  // trace[d] holds the furthest x for diagonals -d..d after d edits
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(offset, MAX_EDIT_DISTANCE); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, a, b);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  return [...deleteAll, ...insertAll];
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const inserted = prevK === k + 1;
+    // Where the edit from the previous diagonal landed, before the snake of equal lines
+    const startX = inserted ? at(prevK) : at(prevK) + 1;
+
+    while (x > startX) {
+      ops.push({ type: "equal", line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (inserted) {
+      ops.push({ type: "insert", line: b[y - 1] });
+      y--;
+    } else {
+      ops.push({ type: "delete", line: a[x - 1] });
+      x--;
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: "equal", line: a[x - 1] });
+    x--;
+    y--;
+  }
+  return ops.reverse();
+}
+
+/** A `diff -u` style patch from `oldText` to `newText`, or "" when they are the same. */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions): string {
+  const context = options.context ?? 3;
+  let oldLine = 0;
+  let newLine = 0;
+  const rows = diffLines(splitLines(oldText), splitLines(newText)).map((op) => {
+    const row = { ...op, oldLine, newLine };
+    if (op.type !== "insert") oldLine++;
+    if (op.type !== "delete") newLine++;
+    return row;
+  });
+
+  const changes = rows.flatMap((row, index) => (row.type === "equal" ? [] : [index]));
+  if (changes.length === 0) return "";
+
+  const output = [`--- ${options.oldPath ? `a/${options.oldPath}` : "/dev/null"}`, `+++ b/${options.newPath}`];
+  for (let i = 0; i < changes.length; i++) {
+    const start = Math.max(0, changes[i] - context);
+    let end = changes[i];
+    // Changes closer than two contexts apart share a hunk
+    while (i + 1 < changes.length && changes[i + 1] - end <= 2 * context) end = changes[++i];
+    const hunk = rows.slice(start, Math.min(rows.length, end + context + 1));
+
+    const oldCount = hunk.filter((row) => row.type !== "insert").length;
+    const newCount = hunk.filter((row) => row.type !== "delete").length;
+    const oldStart = oldCount === 0 ? hunk[0].oldLine : hunk[0].oldLine + 1;
+    const newStart = newCount === 0 ? hunk[0].newLine : hunk[0].newLine + 1;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const row of hunk) {
+      output.push(`${row.type === "insert" ? "+" : row.type === "delete" ? "-" : " "}${row.line}`);
+    }
+  }
+  return `${output.join("\n")}\n`;
+}
+
+/** Added and removed line counts of a unified diff. */
+export function diffStats(diff: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  let inHunk = false;
+  for (const line of diff.split("\n")) {
+    // Skips the ---/+++ file headers
+    if (line.startsWith("@@")) inHunk = true;
+    else if (inHunk && line.startsWith("+")) added++;
+    else if (inHunk && line.startsWith("-")) removed++;
+  }
+  return { added, removed };
+}
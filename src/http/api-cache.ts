@@ -0,0 +1,199 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import * as path from "node:path";
+import type { Logger } from "../logger.js";
+
+export interface ApiCacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+  /** When set, entries are persisted to this JSON file and reloaded on start */
+  filePath?: string;
+  logger: Logger;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+  bytes: number;
+  evictions: number;
+  persistent: boolean;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  size: number;
+}
+
+interface CacheFile {
+  version: 1;
+  entries: Array<[string, CacheEntry]>;
+}
+
+const SAVE_DELAY_MS = 1_000;
+
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") return value.trim();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+export class ApiCache {
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly filePath?: string;
+  private readonly logger: Logger;
+  private readonly entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: ApiCacheOptions) {
+    this.ttlMs = options.ttlMs;
+    this.maxEntries = options.maxEntries;
+    this.maxBytes = options.maxBytes;
+    this.filePath = options.filePath;
+    this.logger = options.logger;
+    this.load();
+  }
+
+  /**
+   * Cache key for a request: endpoint plus the body with sorted keys and trimmed
+   * strings. `scope` keeps apart responses fetched from different APIs or with
+   * different keys, which a persisted cache would otherwise mix up.
+   */
+  static key(method: string, endpoint: string, body?: unknown, scope = ""): string {
+    const normalized = JSON.stringify(normalize(body ?? null));
+    return createHash("sha256").update(`${scope}\n${method} ${endpoint}\n${normalized}`).digest("hex");
+  }
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.remove(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value as T;
+  }
+
+  set(key: string, value: unknown): void {
+    const size = JSON.stringify(value)?.length ?? 0;
+    if (size > this.maxBytes) return;
+
+    this.remove(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs, size });
+    this.bytes += size;
+    this.evict();
+    this.scheduleSave();
+  }
+
+  delete(key: string): void {
+    this.remove(key);
+    this.scheduleSave();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+    this.scheduleSave();
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : Math.round((this.hits / lookups) * 1000) / 1000,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      evictions: this.evictions,
+      persistent: this.filePath !== undefined,
+    };
+  }
+
+  /** Writes the cache to disk immediately. Safe to call from a process "exit" handler. */
+  save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.filePath) return;
+
+    const now = Date.now();
+    const data: CacheFile = {
+      version: 1,
+      entries: [...this.entries].filter(([, entry]) => entry.expiresAt > now),
+    };
+
+    try {
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, JSON.stringify(data), { mode: 0o600 });
+    } catch (error) {
+      this.logger.warn(`Could not write cache file ${this.filePath}:`, error);
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, "utf-8")) as CacheFile;
+      if (data.version !== 1 || !Array.isArray(data.entries)) return;
+
+      const now = Date.now();
+      for (const [key, entry] of data.entries) {
+        if (entry.expiresAt <= now) continue;
+        this.entries.set(key, entry);
+        this.bytes += entry.size;
+      }
+      this.evict();
+      this.logger.debug(`Loaded ${this.entries.size} cache entries from ${this.filePath}`);
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable cache file ${this.filePath}:`, error);
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.bytes -= entry.size;
+  }
+
+  private evict(): void {
+    // Map iteration order is insertion order, so the first key is the least recently used
+    while (this.entries.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.remove(oldest);
+      this.evictions++;
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY_MS);
+    if (this.saveTimer.unref) {
+      this.saveTimer.unref();
+    }
+  }
+}
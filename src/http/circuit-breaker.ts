@@ -0,0 +1,104 @@
+import type { Logger } from "../logger.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+  logger: Logger;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt?: string;
+  retryAfterMs?: number;
+}
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly logger: Logger;
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.failureThreshold = options.failureThreshold;
+    this.cooldownMs = options.cooldownMs;
+    this.logger = options.logger;
+  }
+
+  /** Whether a request may go out now. Moves open → half-open once the cool-down has passed. */
+  canRequest(): boolean {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.transition("half-open");
+    }
+
+    if (this.state === "closed") return true;
+    if (this.state === "half-open" && !this.trialInFlight) {
+      // Let a single trial request through to probe the backend
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.state !== "closed") this.transition("closed");
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === "half-open" || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.state !== "open") this.transition("open");
+    }
+  }
+
+  /** Releases a half-open trial slot without counting the outcome (e.g. caller cancelled). */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getRetryAfterMs(): number {
+    if (this.state !== "open") return 0;
+    return Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      ...(this.state === "open" && {
+        openedAt: new Date(this.openedAt).toISOString(),
+        retryAfterMs: this.getRetryAfterMs(),
+      }),
+    };
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.state;
+    this.state = next;
+
+    const message = `Circuit breaker ${previous} → ${next}`;
+    if (next === "open") {
+      this.logger.warn(
+        `${message} after ${this.consecutiveFailures} consecutive failures, failing fast for ${Math.round(this.cooldownMs / 1000)}s`
+      );
+    } else {
+      this.logger.info(message);
+    }
+  }
+}
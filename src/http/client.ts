@@ -1,10 +1,28 @@
+import { createHash } from "node:crypto";
+import type { z } from "zod";
 import type { Logger } from "../logger.js";
+import { getRequestContext, requestLogger } from "../request-context.js";
+import { ApiCache, type CacheStats } from "./api-cache.js";
+import type { CircuitBreaker, CircuitBreakerSnapshot } from "./circuit-breaker.js";
+import { CircuitOpenError, HttpError, bodyExcerpt } from "./errors.js";
+import type { QuotaSnapshot, QuotaTracker } from "./quota-tracker.js";
+import { Outbound } from "./outbound.js";
+import {
+  InvalidStreamMessageError,
+  STREAM_ACCEPT,
+  StreamAssembler,
+  readStreamMessages,
+  streamFormat,
+  type StreamFormat,
+} from "./stream.js";
 
 export interface RetryConfig {
   maxRetries: number;
   baseDelay: number;
   maxDelay: number;
   jitterMax: number;
+  /** Total time (ms) a request may spend waiting on Retry-After from 429/503 responses; 0 never waits */
+  retryAfterBudget?: number;
 }
 
 export interface HttpClientConfig {
@@ -13,12 +31,62 @@ export interface HttpClientConfig {
   timeout: number;
   retry: RetryConfig;
   logger: Logger;
+  cache?: ApiCache;
+  circuitBreaker?: CircuitBreaker;
+  quotaTracker?: QuotaTracker;
+  /** Proxy/CA-aware fetch; defaults to a direct connection */
+  outbound?: Outbound;
 }
 
-export interface HttpResponse<T> {
-  status: number;
-  data: T;
-  ok: boolean;
+export interface RequestOptions<T = unknown> {
+  signal?: AbortSignal;
+  /** Set to false to bypass the response cache for this call */
+  cache?: boolean;
+  /** Set to false to always send this call instead of sharing an identical in-flight request */
+  coalesce?: boolean;
+  /**
+   * The part of the body that decides which in-flight requests this call may
+   * share, when callers send extra fields that do not change the answer.
+   * Defaults to the whole body. The request that starts first is the one sent.
+   */
+  coalesceOn?: unknown;
+  /** Checked against the parsed body of successful responses; mismatches become invalid_response errors */
+  schema?: z.ZodType<T>;
+  /**
+   * Asks the API for a streamed (SSE/NDJSON) response and receives each piece
+   * of text as it arrives. The resolved response still carries the assembled body.
+   */
+  onChunk?: (delta: string, text: string) => void;
+}
+
+export type HttpResponse<T> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; status: number; data: T | null; error: HttpError };
+
+interface InFlightRequest {
+  promise: Promise<HttpResponse<unknown>>;
+  /** Request id of the tool call that started the shared request */
+  requestId?: string;
+  /** Aborts the shared network call once every waiting caller has cancelled */
+  controller: AbortController;
+  waiters: number;
+  /** Stream text received so far, replayed to callers that join late */
+  received: string;
+  listeners: Set<(delta: string, text: string) => void>;
+}
+
+const schemaIds = new WeakMap<object, number>();
+let nextSchemaId = 1;
+
+/** Callers validating with different schemas must not share a response. */
+function schemaId(schema: unknown): number {
+  if (!schema || typeof schema !== "object") return 0;
+  let id = schemaIds.get(schema);
+  if (id === undefined) {
+    id = nextSchemaId++;
+    schemaIds.set(schema, id);
+  }
+  return id;
 }
 
 function isNetworkError(error: unknown): boolean {
@@ -42,8 +110,35 @@ function calculateBackoff(attempt: number, config: RetryConfig): number {
   return Math.min(delay + jitter, config.maxDelay);
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/** Parses a Retry-After header (delta seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (value === null || value.trim() === "") return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds >= 0 ? seconds * 1000 : null;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+const REQUEST_ID_HEADER = "X-Request-Id";
+
+function cancelledResponse(endpoint: string, attempts: number, cause?: unknown): HttpResponse<never> {
+  const error = new HttpError(`${endpoint} request was cancelled`, { kind: "cancelled", endpoint, attempts, cause });
+  return { ok: false, status: 0, data: null, error };
 }
 
 export class HttpClient {
@@ -51,132 +146,431 @@ export class HttpClient {
   private readonly apiKey: string;
   private readonly timeout: number;
   private readonly retry: RetryConfig;
-  private readonly logger: Logger;
+  private readonly baseLogger: Logger;
+  private readonly cache?: ApiCache;
+  private readonly breaker?: CircuitBreaker;
+  private readonly quota?: QuotaTracker;
+  private readonly outbound: Outbound;
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  /** API and key the cached responses belong to; the key itself is only kept as a hash */
+  private readonly cacheScope: string;
 
   constructor(config: HttpClientConfig) {
     this.baseUrl = config.baseUrl;
     this.apiKey = config.apiKey;
     this.timeout = config.timeout;
     this.retry = config.retry;
-    this.logger = config.logger;
+    this.baseLogger = config.logger;
+    this.cache = config.cache;
+    this.breaker = config.circuitBreaker;
+    this.quota = config.quotaTracker;
+    this.outbound = config.outbound ?? new Outbound({ logger: config.logger });
+    this.cacheScope = `${this.baseUrl} ${createHash("sha256").update(this.apiKey).digest("hex").slice(0, 16)}`;
+  }
+
+  private get logger(): Logger {
+    return requestLogger(this.baseLogger);
+  }
+
+  /** The API URL and a hash of the key; identifies the key without revealing it */
+  getKeyScope(): string {
+    return this.cacheScope;
   }
 
-  async get<T>(endpoint: string): Promise<HttpResponse<T>> {
-    return this.request<T>("GET", endpoint);
+  getCacheStats(): CacheStats | null {
+    return this.cache?.getStats() ?? null;
   }
 
-  async post<T>(endpoint: string, body?: unknown): Promise<HttpResponse<T>> {
-    return this.request<T>("POST", endpoint, body);
+  getCircuitBreakerState(): CircuitBreakerSnapshot | null {
+    return this.breaker?.getSnapshot() ?? null;
   }
 
-  async put<T>(endpoint: string, body?: unknown): Promise<HttpResponse<T>> {
-    return this.request<T>("PUT", endpoint, body);
+  getQuotaState(): QuotaSnapshot | null {
+    return this.quota?.getSnapshot(this.apiKey) ?? null;
   }
 
-  async delete<T>(endpoint: string, body?: unknown): Promise<HttpResponse<T>> {
-    return this.request<T>("DELETE", endpoint, body);
+  /** Warning to surface to the user when the API quota is nearly used up, otherwise null */
+  getQuotaWarning(): string | null {
+    return this.quota?.getWarning(this.apiKey) ?? null;
   }
 
-  async patch<T>(endpoint: string, body?: unknown): Promise<HttpResponse<T>> {
-    return this.request<T>("PATCH", endpoint, body);
+  async get<T>(endpoint: string, options?: RequestOptions<T>): Promise<HttpResponse<T>> {
+    return this.request<T>("GET", endpoint, undefined, options);
+  }
+
+  async post<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<HttpResponse<T>> {
+    return this.request<T>("POST", endpoint, body, options);
+  }
+
+  async put<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<HttpResponse<T>> {
+    return this.request<T>("PUT", endpoint, body, options);
+  }
+
+  async delete<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<HttpResponse<T>> {
+    return this.request<T>("DELETE", endpoint, body, options);
+  }
+
+  async patch<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<HttpResponse<T>> {
+    return this.request<T>("PATCH", endpoint, body, options);
   }
 
   private async request<T>(
     method: string,
     endpoint: string,
-    body?: unknown
+    body?: unknown,
+    options: RequestOptions<T> = {}
+  ): Promise<HttpResponse<T>> {
+    // Only GET and POST are treated as queries; other verbs may have side effects
+    const key = method === "GET" || method === "POST" ? ApiCache.key(method, endpoint, body, this.cacheScope) : null;
+    const cacheKey = this.cache && options.cache !== false ? key : null;
+    // Callers only share a request when they would treat its response the same way
+    const coalesceKey =
+      key && options.coalesce !== false
+        ? ApiCache.key(method, endpoint, {
+            body: options.coalesceOn ?? body,
+            schema: schemaId(options.schema),
+            cache: cacheKey !== null,
+          })
+        : null;
+
+    if (cacheKey) {
+      const cached = this.cache!.get<HttpResponse<T>>(cacheKey);
+      if (cached) {
+        // Entries may come from a cache file written by an older version with another response shape
+        const checked = options.schema ? options.schema.safeParse(cached.data) : null;
+        if (!checked || checked.success) {
+          this.logger.debug(`Cache hit for ${method} ${endpoint}`);
+          return checked ? { ...cached, data: checked.data as T } : cached;
+        }
+        this.logger.debug(`Dropping cached ${method} ${endpoint} response that no longer matches its schema`);
+        this.cache!.delete(cacheKey);
+      }
+    }
+
+    const sendAndCache = async (signal?: AbortSignal, onChunk = options.onChunk) => {
+      const response = await this.send<T>(method, endpoint, body, { ...options, signal, onChunk });
+      if (cacheKey && response.ok) {
+        this.cache!.set(cacheKey, response);
+      }
+      return response;
+    };
+
+    if (!coalesceKey) {
+      return sendAndCache(options.signal);
+    }
+
+    let entry = this.inFlight.get(coalesceKey);
+    if (entry) {
+      this.logger.debug(
+        `Coalescing ${method} ${endpoint} with an identical in-flight request${entry.requestId ? ` (${entry.requestId})` : ""}`
+      );
+    } else {
+      const controller = new AbortController();
+      // The stream is only requested when the caller that starts the request wants one
+      const fanOut = options.onChunk
+        ? (delta: string, text: string) => {
+            shared.received = text;
+            for (const listener of shared.listeners) listener(delta, text);
+          }
+        : undefined;
+      const shared: InFlightRequest = {
+        promise: sendAndCache(controller.signal, fanOut).finally(() => this.inFlight.delete(coalesceKey)),
+        requestId: getRequestContext()?.requestId,
+        controller,
+        waiters: 0,
+        received: "",
+        listeners: new Set(),
+      };
+      entry = shared;
+      this.inFlight.set(coalesceKey, entry);
+    }
+
+    return this.join(entry, endpoint, options.signal, options.onChunk) as Promise<HttpResponse<T>>;
+  }
+
+  /** Waits for a shared request; a caller that aborts leaves without cancelling it for the others. */
+  private async join(
+    entry: InFlightRequest,
+    endpoint: string,
+    signal?: AbortSignal,
+    onChunk?: RequestOptions["onChunk"]
+  ): Promise<HttpResponse<unknown>> {
+    if (onChunk) {
+      if (entry.received) onChunk(entry.received, entry.received);
+      entry.listeners.add(onChunk);
+    }
+    entry.waiters++;
+    let left = false;
+    // Every waiter leaves exactly once, whether it cancelled or got the response
+    const leave = (cancelled: boolean) => {
+      if (left) return;
+      left = true;
+      if (--entry.waiters === 0 && cancelled) entry.controller.abort();
+    };
+
+    try {
+      if (!signal) return await entry.promise;
+      return await new Promise((resolve, reject) => {
+        const onAbort = () => {
+          leave(true);
+          resolve(cancelledResponse(endpoint, 0, signal.reason));
+        };
+        if (signal.aborted) return onAbort();
+
+        signal.addEventListener("abort", onAbort, { once: true });
+        entry.promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+      });
+    } finally {
+      leave(false);
+      if (onChunk) entry.listeners.delete(onChunk);
+    }
+  }
+
+  private async send<T>(
+    method: string,
+    endpoint: string,
+    body: unknown,
+    options: RequestOptions<T>
   ): Promise<HttpResponse<T>> {
     const url = `${this.baseUrl}${endpoint}`;
-    let lastError: Error | null = null;
-    let lastResponse: Response | null = null;
+    const { signal } = options;
+    const requestId = getRequestContext()?.requestId;
+    let attempts = 0;
+    let retryAfterWaited = 0;
+
+    const fail = (error: HttpError, data: T | null = null): HttpResponse<T> => ({
+      ok: false,
+      status: error.status,
+      data,
+      error,
+    });
+    const cancelled = (cause?: unknown): HttpResponse<T> => {
+      this.logger.debug(`HTTP ${method} ${url} cancelled`);
+      return cancelledResponse(endpoint, attempts, cause);
+    };
 
     for (let attempt = 0; attempt <= this.retry.maxRetries; attempt++) {
+      // Cancelled by the caller — stop before (re)trying
+      if (signal?.aborted) return cancelled();
+
+      // Backend considered down — fail fast instead of waiting through retries
+      if (this.breaker && !this.breaker.canRequest()) {
+        return fail(new CircuitOpenError(endpoint, this.breaker.getRetryAfterMs()));
+      }
+
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      let timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      // While a stream is flowing the timeout applies to the gap between chunks
+      const extendTimeout = () => {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      };
+      attempts = attempt + 1;
 
       try {
-        this.logger.debug(`HTTP ${method} ${url} (attempt ${attempt + 1})`);
+        this.logger.debug(`HTTP ${method} ${url} (attempt ${attempts})`);
 
-        const response = await fetch(url, {
+        const response = await this.outbound.fetch(url, {
           method,
           headers: {
             "Content-Type": "application/json",
             Authorization: `Bearer ${this.apiKey}`,
+            ...(options.onChunk && { Accept: STREAM_ACCEPT }),
+            ...(requestId && { [REQUEST_ID_HEADER]: requestId }),
           },
-          signal: controller.signal,
+          signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
           ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
         });
+        this.quota?.record(this.apiKey, response.headers);
+
+        // 429/503 with Retry-After — wait as asked if it fits in the budget
+        const retryAfterMs =
+          response.status === 429 || response.status === 503
+            ? parseRetryAfter(response.headers.get("retry-after"))
+            : null;
+        if (retryAfterMs !== null) {
+          if (response.status === 429) {
+            this.breaker?.recordSuccess();
+          } else {
+            this.breaker?.recordFailure();
+          }
+          if (
+            attempt < this.retry.maxRetries &&
+            retryAfterWaited + retryAfterMs <= (this.retry.retryAfterBudget ?? 0)
+          ) {
+            retryAfterWaited += retryAfterMs;
+            this.logger.warn(
+              `${endpoint} returned ${response.status}, retrying after ${Math.round(retryAfterMs)}ms as requested (${attempt + 1}/${this.retry.maxRetries})`
+            );
+            await sleep(retryAfterMs, signal);
+            continue;
+          }
+          const data = await this.safeJson<T>(response);
+          return fail(HttpError.fromStatus(endpoint, response.status, attempts, data, retryAfterMs), data);
+        }
 
         // 4xx — no retry
         if (response.status >= 400 && response.status < 500) {
+          this.breaker?.recordSuccess();
           const data = await this.safeJson<T>(response);
-          return { status: response.status, data, ok: false };
+          return fail(HttpError.fromStatus(endpoint, response.status, attempts, data), data);
         }
 
         // 5xx — retry
         if (response.status >= 500) {
-          lastResponse = response;
+          this.breaker?.recordFailure();
           if (attempt < this.retry.maxRetries) {
             const delay = calculateBackoff(attempt, this.retry);
             this.logger.warn(
               `${endpoint} returned ${response.status}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${this.retry.maxRetries})`
             );
-            await sleep(delay);
+            await sleep(delay, signal);
             continue;
           }
           const data = await this.safeJson<T>(response);
-          return { status: response.status, data, ok: false };
+          return fail(HttpError.fromStatus(endpoint, response.status, attempts, data), data);
         }
 
         // Success
-        const data = await this.safeJson<T>(response);
-        return { status: response.status, data, ok: true };
+        this.breaker?.recordSuccess();
+        const format = streamFormat(response.headers.get("content-type"));
+        let text: string;
+        let data: unknown;
+
+        if (format && response.body) {
+          // Partial output has already been handed out, so a broken stream is never retried
+          try {
+            data = await this.readStream(response.body, format, options.onChunk, extendTimeout);
+            text = JSON.stringify(data);
+          } catch (error) {
+            if (signal?.aborted) return cancelled(error);
+            if (error instanceof InvalidStreamMessageError) {
+              return fail(
+                new HttpError(`${endpoint} streamed a message that is not valid JSON`, {
+                  kind: "invalid_json",
+                  endpoint,
+                  status: response.status,
+                  attempts,
+                  cause: error.cause,
+                  excerpt: bodyExcerpt(error.raw),
+                })
+              );
+            }
+            const timedOut = controller.signal.aborted;
+            return fail(
+              new HttpError(
+                timedOut
+                  ? `${endpoint} stream stalled for more than ${this.timeout}ms`
+                  : `${endpoint} stream broke off before it finished`,
+                { kind: timedOut ? "timeout" : "network", endpoint, status: response.status, attempts, cause: error }
+              )
+            );
+          }
+        } else {
+          text = await response.text();
+          try {
+            data = JSON.parse(text);
+          } catch (error) {
+            return fail(
+              new HttpError(`${endpoint} returned a body that is not valid JSON`, {
+                kind: "invalid_json",
+                endpoint,
+                status: response.status,
+                attempts,
+                cause: error,
+                excerpt: bodyExcerpt(text),
+              })
+            );
+          }
+        }
+
+        if (!options.schema) {
+          return { ok: true, status: response.status, data: data as T };
+        }
+        const result = options.schema.safeParse(data);
+        if (!result.success) {
+          const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+          this.logger.warn(`${endpoint} returned an unexpected response: ${issues.join("; ")}`);
+          return fail(
+            new HttpError(`${endpoint} returned a response that does not match the expected shape`, {
+              kind: "invalid_response",
+              endpoint,
+              status: response.status,
+              attempts,
+              excerpt: bodyExcerpt(text),
+              issues,
+            })
+          );
+        }
+        return { ok: true, status: response.status, data: result.data };
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+        if (signal?.aborted) {
+          this.breaker?.release();
+          return cancelled(error);
+        }
+
+        this.breaker?.recordFailure();
 
         // Timeout — no retry
-        if (lastError.name === "AbortError") {
-          return {
-            status: 0,
-            data: null as T,
-            ok: false,
-          };
+        if (error instanceof Error && error.name === "AbortError") {
+          return fail(
+            new HttpError(`${endpoint} timed out after ${this.timeout}ms`, {
+              kind: "timeout",
+              endpoint,
+              attempts,
+              cause: error,
+            })
+          );
         }
 
         // Network error — retry
+        const message = error instanceof Error ? error.message : String(error);
         if (isNetworkError(error) && attempt < this.retry.maxRetries) {
           const delay = calculateBackoff(attempt, this.retry);
           this.logger.warn(
-            `Network error for ${endpoint}: ${lastError.message}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${this.retry.maxRetries})`
+            `Network error for ${endpoint}: ${message}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${this.retry.maxRetries})`
           );
-          await sleep(delay);
+          await sleep(delay, signal);
           continue;
         }
 
-        return {
-          status: 0,
-          data: null as T,
-          ok: false,
-        };
+        return fail(
+          new HttpError(`Could not reach ${endpoint}: ${message}`, {
+            kind: "network",
+            endpoint,
+            attempts,
+            cause: error,
+          })
+        );
       } finally {
         clearTimeout(timeoutId);
       }
     }
 
-    // Exhausted retries
-    if (lastResponse) {
-      const data = await this.safeJson<T>(lastResponse);
-      return { status: lastResponse.status, data, ok: false };
-    }
+    // Unreachable: the final attempt always returns above
+    return cancelled();
+  }
 
-    return { status: 0, data: null as T, ok: false };
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    format: StreamFormat,
+    onChunk: RequestOptions["onChunk"],
+    onActivity: () => void
+  ): Promise<Record<string, unknown>> {
+    const assembler = new StreamAssembler();
+    for await (const message of readStreamMessages(body, format)) {
+      onActivity();
+      const delta = assembler.push(message);
+      if (delta && onChunk) onChunk(delta, assembler.getText());
+    }
+    return assembler.getResult();
   }
 
-  private async safeJson<T>(response: Response): Promise<T> {
+  private async safeJson<T>(response: Response): Promise<T | null> {
     try {
       return (await response.json()) as T;
     } catch {
-      return null as T;
+      return null;
     }
   }
 }
@@ -0,0 +1,112 @@
+import { LogSanitizer } from "../security/log-sanitizer.js";
+
+const EXCERPT_LENGTH = 200;
+const SENSITIVE_JSON_FIELD = /("(?:[\w-]*(?:key|token|secret|password|authorization)[\w-]*)"\s*:\s*)"[^"]*"/gi;
+
+export type HttpErrorKind =
+  | "timeout"
+  | "network"
+  | "auth"
+  | "quota"
+  | "client"
+  | "server"
+  | "invalid_json"
+  | "invalid_response"
+  | "cancelled"
+  | "circuit_open";
+
+export interface HttpErrorOptions {
+  kind: HttpErrorKind;
+  endpoint: string;
+  /** HTTP status of the last response, 0 when no response was received */
+  status?: number;
+  attempts: number;
+  cause?: unknown;
+  /** Parsed body of the last error response, if any */
+  body?: unknown;
+  /** How long the server asked us to wait (Retry-After), if it said */
+  retryAfterMs?: number;
+  /** Short, secret-free excerpt of an unusable response body */
+  excerpt?: string;
+  /** Schema mismatches, as "path: message" */
+  issues?: string[];
+}
+
+export class HttpError extends Error {
+  readonly kind: HttpErrorKind;
+  readonly endpoint: string;
+  readonly status: number;
+  readonly attempts: number;
+  readonly body?: unknown;
+  readonly retryAfterMs?: number;
+  readonly excerpt?: string;
+  readonly issues?: string[];
+
+  constructor(message: string, options: HttpErrorOptions) {
+    super(message, { cause: options.cause });
+    this.name = "HttpError";
+    this.kind = options.kind;
+    this.endpoint = options.endpoint;
+    this.status = options.status ?? 0;
+    this.attempts = options.attempts;
+    this.body = options.body;
+    this.retryAfterMs = options.retryAfterMs;
+    this.excerpt = options.excerpt;
+    this.issues = options.issues;
+  }
+
+  /** Message of the underlying error that caused the last failed attempt */
+  get causeMessage(): string | undefined {
+    if (this.cause instanceof Error) return this.cause.message;
+    return this.cause === undefined ? undefined : String(this.cause);
+  }
+
+  static fromStatus(
+    endpoint: string,
+    status: number,
+    attempts: number,
+    body?: unknown,
+    retryAfterMs?: number
+  ): HttpError {
+    return new HttpError(`${endpoint} returned status ${status}`, {
+      kind: kindForStatus(status),
+      endpoint,
+      status,
+      attempts,
+      body,
+      retryAfterMs,
+    });
+  }
+}
+
+export class CircuitOpenError extends HttpError {
+  declare readonly retryAfterMs: number;
+
+  constructor(endpoint: string, retryAfterMs: number) {
+    super(`Circuit breaker is open, not calling ${endpoint} (retry in ${Math.ceil(retryAfterMs / 1000)}s)`, {
+      kind: "circuit_open",
+      endpoint,
+      attempts: 0,
+      retryAfterMs,
+    });
+    this.name = "CircuitOpenError";
+  }
+}
+
+/** Single-line, truncated and secret-redacted excerpt of a response body for error reports. */
+export function bodyExcerpt(body: string): string {
+  const flattened = body
+    .replace(SENSITIVE_JSON_FIELD, '$1"[REDACTED]"')
+    .replace(/[\u0000-\u001f\u007f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const truncated = flattened.length > EXCERPT_LENGTH ? `${flattened.slice(0, EXCERPT_LENGTH)}…` : flattened;
+  return LogSanitizer.sanitize(truncated);
+}
+
+export function kindForStatus(status: number): HttpErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "quota";
+  if (status >= 500) return "server";
+  return "client";
+}
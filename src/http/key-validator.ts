@@ -0,0 +1,105 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import * as path from "node:path";
+import type { HttpClient } from "./client.js";
+import { FetchUiResponseSchema } from "./schemas.js";
+
+export type KeyValidation =
+  | { status: "valid"; checkedAt: number }
+  | { status: "invalid"; message: string }
+  | { status: "unknown"; message: string };
+
+export const VERIFIED_KEYS_FILE_NAME = "verified-keys.json";
+
+/** How long an accepted key is trusted before it is sent to the API again */
+const VERIFIED_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Remembers which keys the API accepted recently, so startup, `magic doctor`
+ * and `magic login` do not spend a generation request on a key that was just
+ * checked. Only hashes of the API URL and key are stored.
+ */
+export class VerifiedKeys {
+  readonly filePath: string;
+
+  constructor(dir: string) {
+    this.filePath = path.join(dir, VERIFIED_KEYS_FILE_NAME);
+  }
+
+  /** When the key was last accepted, or null if not within the last day. */
+  checkedAt(keyScope: string, now = Date.now()): number | null {
+    const checkedAt = this.load()[this.hash(keyScope)];
+    return typeof checkedAt === "number" && now - checkedAt < VERIFIED_TTL_MS ? checkedAt : null;
+  }
+
+  add(keyScope: string, now = Date.now()): void {
+    const entries = Object.fromEntries(Object.entries(this.load()).filter(([, checkedAt]) => now - checkedAt < VERIFIED_TTL_MS));
+    entries[this.hash(keyScope)] = now;
+    try {
+      mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      writeFileSync(tempPath, `${JSON.stringify(entries, null, 2)}\n`, { mode: 0o600 });
+      renameSync(tempPath, this.filePath);
+    } catch {
+      // Only a shortcut; the key is simply checked again next time
+    }
+  }
+
+  private hash(keyScope: string): string {
+    return createHash("sha256").update(keyScope).digest("hex");
+  }
+
+  private load(): Record<string, number> {
+    if (!existsSync(this.filePath)) return {};
+    try {
+      const data: unknown = JSON.parse(readFileSync(this.filePath, "utf-8"));
+      if (typeof data !== "object" || data === null || Array.isArray(data)) return {};
+      return Object.fromEntries(Object.entries(data).filter(([, value]) => typeof value === "number"));
+    } catch {
+      return {};
+    }
+  }
+}
+
+export interface ValidateApiKeyOptions {
+  signal?: AbortSignal;
+  /** Skips the request for a recently accepted key, and records keys the API accepts */
+  verifiedKeys?: VerifiedKeys;
+}
+
+/**
+ * Sends the key with a small inspiration search; /health answers without a
+ * key, so it cannot tell a wrong key from a good one. The API has no cheaper
+ * authenticated endpoint, so each check uses one request of the key's quota
+ * unless `verifiedKeys` remembers the key. Only an explicit 401/403 counts as
+ * invalid; network trouble and other errors leave the key's status unknown.
+ */
+export async function validateApiKey(httpClient: HttpClient, options: ValidateApiKeyOptions = {}): Promise<KeyValidation> {
+  const { signal, verifiedKeys } = options;
+  const keyScope = httpClient.getKeyScope();
+  const checkedAt = verifiedKeys?.checkedAt(keyScope);
+  if (checkedAt) return { status: "valid", checkedAt };
+
+  const response = await httpClient.post(
+    "/api/fetch-ui",
+    { message: "API key check", searchQuery: "button" },
+    { signal, cache: false, coalesce: false, schema: FetchUiResponseSchema }
+  );
+  if (response.ok) {
+    const now = Date.now();
+    verifiedKeys?.add(keyScope, now);
+    return { status: "valid", checkedAt: now };
+  }
+
+  const { error } = response;
+  if (error.kind === "auth") {
+    return {
+      status: "invalid",
+      message: `The 21st.dev API rejected the API key (HTTP ${error.status}). It may be mistyped, expired or revoked; get a new one at https://21st.dev/magic/console and run \`magic login\`.`,
+    };
+  }
+  return {
+    status: "unknown",
+    message: `Could not check the API key: ${error.kind}${error.status > 0 ? ` (HTTP ${error.status})` : ""}${error.causeMessage ? ` - ${error.causeMessage}` : ""}`,
+  };
+}
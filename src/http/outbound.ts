@@ -0,0 +1,105 @@
+import { readFileSync } from "node:fs";
+import { rootCertificates } from "node:tls";
+import { ConfigError } from "../config.js";
+import type { Logger } from "../logger.js";
+
+export interface OutboundConfig {
+  /** Proxy for http:// URLs */
+  httpProxy?: string;
+  /** Proxy for https:// URLs; falls back to httpProxy */
+  httpsProxy?: string;
+  /** Comma-separated hosts, domains (".example.com") or "*" that bypass the proxy */
+  noProxy?: string;
+  /** PEM file with extra root certificates, added to the built-in ones */
+  caFile?: string;
+  logger: Logger;
+}
+
+/** Matches a URL against a NO_PROXY list using the usual curl semantics. */
+export function matchesNoProxy(url: URL, noProxy: string | undefined): boolean {
+  if (!noProxy) return false;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+
+  for (const raw of noProxy.split(/[\s,]+/)) {
+    const entry = raw.trim().toLowerCase();
+    if (!entry) continue;
+    if (entry === "*") return true;
+
+    // "[::1]:8080", "host:8080", or a bare host / IPv6 address
+    const bracketed = entry.match(/^\[([^\]]+)\](?::(\d+))?$/);
+    const hostPort = entry.match(/^([^:]+):(\d+)$/);
+    const [host, entryPort] = bracketed
+      ? [bracketed[1], bracketed[2]]
+      : hostPort
+        ? [hostPort[1], hostPort[2]]
+        : [entry, undefined];
+    if (entryPort && entryPort !== port) continue;
+
+    const domain = host.replace(/^\*?\./, "");
+    if (hostname === domain || hostname.endsWith(`.${domain}`)) return true;
+  }
+
+  return false;
+}
+
+function redactProxy(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    return `${url.protocol}//${url.host}`;
+  } catch {
+    return "(invalid proxy URL)";
+  }
+}
+
+/**
+ * Single place where outbound requests leave the process, so proxy and CA
+ * settings apply to the 21st.dev API, the svgl API and SVG downloads alike.
+ */
+export class Outbound {
+  private readonly httpProxy?: string;
+  private readonly httpsProxy?: string;
+  private readonly noProxy?: string;
+  private readonly ca?: string[];
+  private readonly logger: Logger;
+
+  constructor(config: OutboundConfig) {
+    this.httpProxy = config.httpProxy;
+    this.httpsProxy = config.httpsProxy ?? config.httpProxy;
+    this.noProxy = config.noProxy;
+    this.logger = config.logger;
+
+    if (config.caFile) {
+      try {
+        this.ca = [...rootCertificates, readFileSync(config.caFile, "utf-8")];
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ConfigError([`caFile: cannot read CA bundle ${config.caFile} (${message})`]);
+      }
+    }
+
+    if (this.httpProxy || this.httpsProxy) {
+      this.logger.debug(
+        `Outbound proxy: http=${this.httpProxy ? redactProxy(this.httpProxy) : "direct"}, https=${this.httpsProxy ? redactProxy(this.httpsProxy) : "direct"}${this.noProxy ? `, no_proxy=${this.noProxy}` : ""}`
+      );
+    }
+  }
+
+  /** Proxy URL to use for the given URL, or null to connect directly. */
+  getProxyFor(url: string | URL): string | null {
+    const target = typeof url === "string" ? new URL(url) : url;
+    const proxy = target.protocol === "https:" ? this.httpsProxy : this.httpProxy;
+    if (!proxy || matchesNoProxy(target, this.noProxy)) return null;
+    return proxy;
+  }
+
+  fetch(url: string | URL, init: RequestInit = {}): Promise<Response> {
+    const proxy = this.getProxyFor(url);
+    return fetch(url, {
+      ...init,
+      ...(proxy && { proxy }),
+      ...(this.ca && { tls: { ca: this.ca } }),
+    });
+  }
+}
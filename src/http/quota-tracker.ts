@@ -0,0 +1,134 @@
+import type { Logger } from "../logger.js";
+
+export interface QuotaTrackerOptions {
+  /** Warn once remaining/limit drops to or below this ratio */
+  warningRatio?: number;
+  logger: Logger;
+}
+
+export interface QuotaSnapshot {
+  /** Masked API key the usage belongs to */
+  key: string;
+  /** Requests answered for this key since the server started */
+  requests: number;
+  limit?: number;
+  remaining?: number;
+  resetAt?: string;
+  updatedAt?: string;
+}
+
+interface KeyUsage {
+  requests: number;
+  limit?: number;
+  remaining?: number;
+  resetAt?: number;
+  updatedAt?: number;
+  warned: boolean;
+}
+
+const DEFAULT_WARNING_RATIO = 0.1;
+
+// Checked in order; the first header present wins
+const LIMIT_HEADERS = ["x-ratelimit-limit", "ratelimit-limit", "x-quota-limit"];
+const REMAINING_HEADERS = ["x-ratelimit-remaining", "ratelimit-remaining", "x-quota-remaining"];
+const USED_HEADERS = ["x-ratelimit-used", "x-quota-used"];
+const RESET_HEADERS = ["x-ratelimit-reset", "ratelimit-reset", "x-quota-reset"];
+
+function readNumber(headers: Headers, names: string[]): number | undefined {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value === null) continue;
+    // RateLimit-* headers may carry parameters, e.g. "100;w=60"
+    const parsed = Number(value.split(/[;,]/)[0].trim());
+    if (Number.isFinite(parsed) && parsed >= 0) return parsed;
+  }
+  return undefined;
+}
+
+/** Keeps only the last four characters, e.g. for logs and `magic config`. */
+export function maskKey(apiKey: string): string {
+  return apiKey.length > 8 ? `…${apiKey.slice(-4)}` : "…";
+}
+
+export class QuotaTracker {
+  private readonly warningRatio: number;
+  private readonly logger: Logger;
+  private readonly usage = new Map<string, KeyUsage>();
+
+  constructor(options: QuotaTrackerOptions) {
+    this.warningRatio = options.warningRatio ?? DEFAULT_WARNING_RATIO;
+    this.logger = options.logger;
+  }
+
+  /** Counts a request answered for the key and picks up any quota headers from its response. */
+  record(apiKey: string, headers: Headers): void {
+    const usage = this.getUsage(apiKey);
+    usage.requests++;
+
+    const limit = readNumber(headers, LIMIT_HEADERS);
+    const used = readNumber(headers, USED_HEADERS);
+    let remaining = readNumber(headers, REMAINING_HEADERS);
+    if (remaining === undefined && limit !== undefined && used !== undefined) {
+      remaining = Math.max(0, limit - used);
+    }
+    if (limit === undefined && remaining === undefined) return;
+
+    usage.limit = limit ?? usage.limit;
+    usage.remaining = remaining ?? usage.remaining;
+    usage.updatedAt = Date.now();
+
+    const reset = readNumber(headers, RESET_HEADERS);
+    if (reset !== undefined) {
+      // Large values are epoch seconds, small ones are seconds from now
+      usage.resetAt = reset > 1_000_000_000 ? reset * 1000 : Date.now() + reset * 1000;
+    }
+
+    if (this.isNearlyExhausted(usage)) {
+      if (!usage.warned) {
+        this.logger.warn(`API quota nearly used up for key ${maskKey(apiKey)}: ${usage.remaining}/${usage.limit} remaining`);
+        usage.warned = true;
+      }
+    } else {
+      usage.warned = false;
+    }
+  }
+
+  getSnapshot(apiKey: string): QuotaSnapshot {
+    const usage = this.getUsage(apiKey);
+    return {
+      key: maskKey(apiKey),
+      requests: usage.requests,
+      ...(usage.limit !== undefined && { limit: usage.limit }),
+      ...(usage.remaining !== undefined && { remaining: usage.remaining }),
+      ...(usage.resetAt !== undefined && { resetAt: new Date(usage.resetAt).toISOString() }),
+      ...(usage.updatedAt !== undefined && { updatedAt: new Date(usage.updatedAt).toISOString() }),
+    };
+  }
+
+  /** Human-readable warning when the key's quota is nearly used up, otherwise null. */
+  getWarning(apiKey: string): string | null {
+    const usage = this.usage.get(apiKey);
+    if (!usage || !this.isNearlyExhausted(usage)) return null;
+
+    const remaining = usage.limit !== undefined ? `${usage.remaining} of ${usage.limit}` : `${usage.remaining}`;
+    const reset = usage.resetAt !== undefined ? `, resets at ${new Date(usage.resetAt).toISOString()}` : "";
+    return `21st.dev API quota nearly used up: ${remaining} requests remaining${reset}.`;
+  }
+
+  private isNearlyExhausted(usage: KeyUsage): boolean {
+    if (usage.remaining === undefined) return false;
+    // Quota windows roll over; don't keep warning about a window that has already reset
+    if (usage.resetAt !== undefined && usage.resetAt <= Date.now()) return false;
+    if (usage.limit === undefined || usage.limit === 0) return usage.remaining === 0;
+    return usage.remaining / usage.limit <= this.warningRatio;
+  }
+
+  private getUsage(apiKey: string): KeyUsage {
+    let usage = this.usage.get(apiKey);
+    if (!usage) {
+      usage = { requests: 0, warned: false };
+      this.usage.set(apiKey, usage);
+    }
+    return usage;
+  }
+}
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+/** POST /api/fetch-ui — used by the inspiration tool and the builder's API fallback */
+export const FetchUiResponseSchema = z.object({
+  text: z.string().min(1, "expected a non-empty component snippet"),
+});
+
+export type FetchUiResponse = z.infer<typeof FetchUiResponseSchema>;
+
+/** POST /api/refine-ui */
+export const RefineUiResponseSchema = z.object({
+  text: z.string().min(1, "expected a non-empty refined component"),
+});
+
+export type RefineUiResponse = z.infer<typeof RefineUiResponseSchema>;
+
+/** GET /health — only the optional status field is relied on; other fields pass through */
+export const HealthResponseSchema = z.looseObject({
+  status: z.string().optional(),
+});
+
+export type HealthResponse = z.infer<typeof HealthResponseSchema>;
@@ -0,0 +1,114 @@
+export type StreamFormat = "sse" | "ndjson";
+
+/** Accept header sent when the caller can consume partial output */
+export const STREAM_ACCEPT = "text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8";
+
+export class InvalidStreamMessageError extends Error {
+  readonly raw: string;
+
+  constructor(raw: string, cause: unknown) {
+    super("Stream message is not valid JSON", { cause });
+    this.name = "InvalidStreamMessageError";
+    this.raw = raw;
+  }
+}
+
+export function streamFormat(contentType: string | null): StreamFormat | null {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (type === "text/event-stream") return "sse";
+  if (type === "application/x-ndjson" || type === "application/jsonl") return "ndjson";
+  return null;
+}
+
+function parseMessage(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new InvalidStreamMessageError(raw, error);
+  }
+}
+
+/**
+ * Yields the JSON payload of each SSE `data:` event or NDJSON line.
+ * An SSE `data: [DONE]` sentinel ends the stream early.
+ */
+export async function* readStreamMessages(
+  body: ReadableStream<Uint8Array>,
+  format: StreamFormat
+): AsyncGenerator<unknown> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  for await (const bytes of body) {
+    buffer += decoder.decode(bytes, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+
+      if (format === "ndjson") {
+        if (line.trim()) yield parseMessage(line);
+        continue;
+      }
+
+      // SSE: a blank line dispatches the event; comments and non-data fields are ignored
+      if (line === "") {
+        const data = dataLines.join("\n");
+        dataLines = [];
+        if (!data) continue;
+        if (data === "[DONE]") return;
+        yield parseMessage(data);
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+  }
+
+  const rest = (buffer + decoder.decode()).trim();
+  if (format === "ndjson" && rest) {
+    yield parseMessage(rest);
+  } else if (format === "sse") {
+    if (rest.startsWith("data:")) dataLines.push(rest.slice(5).replace(/^ /, ""));
+    const data = dataLines.join("\n");
+    if (data && data !== "[DONE]") yield parseMessage(data);
+  }
+}
+
+/**
+ * Folds stream messages into the final response body. `delta` strings are
+ * appended to `text`, a `text` string replaces it, and any other fields are
+ * kept from the latest message that carried them.
+ */
+export class StreamAssembler {
+  private fields: Record<string, unknown> = {};
+  private text = "";
+
+  /** Applies one message and returns the text it added, if any. */
+  push(message: unknown): string {
+    if (typeof message !== "object" || message === null || Array.isArray(message)) return "";
+
+    const { delta, text, ...rest } = message as Record<string, unknown>;
+    Object.assign(this.fields, rest);
+
+    if (typeof text === "string") {
+      const added = text.startsWith(this.text) ? text.slice(this.text.length) : text;
+      this.text = text;
+      return added;
+    }
+    if (typeof delta === "string") {
+      this.text += delta;
+      return delta;
+    }
+    return "";
+  }
+
+  getText(): string {
+    return this.text;
+  }
+
+  getResult(): Record<string, unknown> {
+    return { ...this.fields, text: this.text };
+  }
+}
@@ -1,53 +1,85 @@
 #!/usr/bin/env bun
 
-import { parseConfig } from "./config.js";
+import { ConfigError, getUserConfigDir, resolveConfig, type ResolvedConfig } from "./config.js";
 import { Logger } from "./logger.js";
-import { HttpClient } from "./http/client.js";
-import { BrowserDetector } from "./browser/detector.js";
+import { createServices, type Services } from "./services.js";
 import { MagicServer } from "./server.js";
+import { VerifiedKeys, validateApiKey } from "./http/key-validator.js";
+import { isCommand, runCommand } from "./cli/index.js";
 
-// 1. Parse and freeze config — throws if invalid
-const config = parseConfig();
-
-// 2. Create logger (stderr only — stdout is reserved for MCP JSON-RPC)
-const logger = new Logger(config.logLevel);
-
-// 3. Create HTTP client with retry config
-const httpClient = new HttpClient({
-  baseUrl: config.debug ? "http://localhost:3005" : "https://magic.21st.dev",
-  apiKey: config.apiKey,
-  timeout: config.timeout,
-  retry: {
-    maxRetries: 3,
-    baseDelay: 1_000,
-    maxDelay: 8_000,
-    jitterMax: 500,
-  },
-  logger,
-});
-
-// 4. Create browser detector
-const browserDetector = new BrowserDetector(logger);
-
-// 5. Create and start server
-const server = new MagicServer({ config, httpClient, browserDetector, logger });
-
-server.start().catch((error) => {
-  logger.error("Fatal error starting server:", error);
-  process.exitCode = 1;
-});
-
-// 6. Signal handlers
-process.on("SIGTERM", () => {
-  logger.info("Received SIGTERM");
-  server.shutdown();
-});
-
-process.on("SIGINT", () => {
-  logger.info("Received SIGINT");
-  server.shutdown();
-});
-
-process.on("unhandledRejection", (reason) => {
-  logger.error("Unhandled rejection:", reason);
-});
+function exitOnConfigError(error: unknown): never {
+  if (!(error instanceof ConfigError)) throw error;
+  process.stderr.write(`${error.message}\n`);
+  process.exit(1);
+}
+
+function startServer(): void {
+  // 1. Parse and freeze config — exits with a readable report if invalid
+  let resolved: ResolvedConfig;
+  try {
+    resolved = resolveConfig();
+  } catch (error) {
+    exitOnConfigError(error);
+  }
+  const { config } = resolved;
+
+  // 2. Create logger (stderr only — stdout is reserved for MCP JSON-RPC)
+  const logger = new Logger(config.logLevel);
+
+  // 3. Create the outbound layer, response cache, HTTP client and browser detector
+  let services: Services;
+  try {
+    services = createServices(config, logger);
+  } catch (error) {
+    exitOnConfigError(error);
+  }
+
+  // 4. Create and start server
+  const server = new MagicServer({ config, logger, ...services });
+
+  server.start().catch((error) => {
+    logger.error("Fatal error starting server:", error);
+    process.exitCode = 1;
+  });
+
+  // 5. Optionally check the API key; a rejected key is reported, but the server keeps running
+  if (config.validateKey) {
+    const origin = resolved.origins.apiKey;
+    validateApiKey(services.httpClient, { verifiedKeys: new VerifiedKeys(getUserConfigDir()) }).then((result) => {
+      if (result.status === "valid") {
+        logger.info("API key accepted by the 21st.dev API");
+      } else if (result.status === "invalid") {
+        logger.error(`${result.message} (key from ${origin.location ?? origin.source})`);
+      } else {
+        logger.warn(result.message);
+      }
+    });
+  }
+
+  // 6. Signal handlers
+  process.on("SIGTERM", () => {
+    logger.info("Received SIGTERM");
+    server.shutdown();
+  });
+
+  process.on("SIGINT", () => {
+    logger.info("Received SIGINT");
+    server.shutdown();
+  });
+
+  process.on("exit", () => {
+    services.apiCache?.save();
+  });
+
+  process.on("unhandledRejection", (reason) => {
+    logger.error("Unhandled rejection:", reason);
+  });
+}
+
+// `magic <command>` runs a CLI subcommand; anything else starts the MCP server
+const [command, ...commandArgs] = process.argv.slice(2);
+if (isCommand(command)) {
+  process.exitCode = await runCommand(command, commandArgs);
+} else {
+  startServer();
+}
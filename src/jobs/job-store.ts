@@ -0,0 +1,166 @@
+import type { CallbackServer } from "../callback/callback-server.js";
+import type { ToolResponse } from "../tools/base-tool.js";
+import type { Logger } from "../logger.js";
+
+export type JobStatus = "running" | "completed" | "failed" | "cancelled";
+
+export type JobPhase = "starting" | "waiting_for_browser" | "api_fallback" | "done";
+
+export interface Job {
+  id: string;
+  tool: string;
+  status: JobStatus;
+  phase: JobPhase;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+  result?: ToolResponse;
+  callbackServer?: CallbackServer;
+  controller: AbortController;
+  /** MCP session that started the job; only that session can see or cancel it */
+  sessionId?: string;
+}
+
+export interface JobSnapshot {
+  jobId: string;
+  tool: string;
+  status: JobStatus;
+  phase: JobPhase;
+  elapsedMs: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface JobStoreOptions {
+  ttlMs: number;
+  logger: Logger;
+}
+
+export class JobStore {
+  private readonly ttlMs: number;
+  private readonly logger: Logger;
+  private readonly jobs = new Map<string, Job>();
+  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: JobStoreOptions) {
+    this.ttlMs = options.ttlMs;
+    this.logger = options.logger;
+    this.startCleanup();
+  }
+
+  create(tool: string, sessionId?: string): Job {
+    const now = Date.now();
+    const job: Job = {
+      id: crypto.randomUUID(),
+      tool,
+      status: "running",
+      phase: "starting",
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + this.ttlMs,
+      controller: new AbortController(),
+      sessionId,
+    };
+    this.jobs.set(job.id, job);
+    this.logger.debug(`Job ${job.id} created for ${tool}`);
+    return job;
+  }
+
+  /** The job, if it exists and belongs to `sessionId`; jobs of other sessions look like unknown ids. */
+  get(id: string, sessionId?: string): Job | undefined {
+    const job = this.jobs.get(id);
+    if (job && job.sessionId !== sessionId) return undefined;
+    if (job && job.expiresAt <= Date.now()) {
+      this.expire(job);
+      return undefined;
+    }
+    return job;
+  }
+
+  setPhase(id: string, phase: JobPhase): void {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "running") return;
+    job.phase = phase;
+    job.updatedAt = Date.now();
+  }
+
+  attachCallbackServer(id: string, server: CallbackServer): void {
+    const job = this.jobs.get(id);
+    if (job) job.callbackServer = server;
+  }
+
+  finish(id: string, result: ToolResponse): void {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "running") return;
+    job.status = result.isError ? "failed" : "completed";
+    job.phase = "done";
+    job.result = result;
+    job.callbackServer = undefined;
+    job.updatedAt = Date.now();
+    this.logger.debug(`Job ${id} ${job.status}`);
+  }
+
+  cancel(id: string, sessionId?: string): boolean {
+    const job = this.get(id, sessionId);
+    if (!job || job.status !== "running") return false;
+    this.abort(job);
+    job.status = "cancelled";
+    job.phase = "done";
+    job.updatedAt = Date.now();
+    this.logger.info(`Job ${id} cancelled`);
+    return true;
+  }
+
+  snapshot(job: Job): JobSnapshot {
+    return {
+      jobId: job.id,
+      tool: job.tool,
+      status: job.status,
+      phase: job.phase,
+      elapsedMs: (job.status === "running" ? Date.now() : job.updatedAt) - job.createdAt,
+      createdAt: new Date(job.createdAt).toISOString(),
+      expiresAt: new Date(job.expiresAt).toISOString(),
+    };
+  }
+
+  cleanup(): void {
+    const now = Date.now();
+    for (const job of this.jobs.values()) {
+      if (job.expiresAt <= now) this.expire(job);
+    }
+  }
+
+  dispose(): void {
+    for (const job of this.jobs.values()) {
+      if (job.status === "running") this.abort(job);
+    }
+    this.jobs.clear();
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  getJobCount(): number {
+    return this.jobs.size;
+  }
+
+  private expire(job: Job): void {
+    if (job.status === "running") this.abort(job);
+    this.jobs.delete(job.id);
+    this.logger.debug(`Job ${job.id} expired`);
+  }
+
+  private abort(job: Job): void {
+    job.controller.abort();
+    job.callbackServer?.cancel();
+    job.callbackServer = undefined;
+  }
+
+  private startCleanup(): void {
+    this.cleanupInterval = setInterval(() => this.cleanup(), 60000);
+    if (this.cleanupInterval.unref) {
+      this.cleanupInterval.unref();
+    }
+  }
+}
@@ -67,6 +67,13 @@ export class Logger {
     }
   }
 
+  /** Logger with the same level whose lines carry an extra `[prefix]` after this logger's own. */
+  child(prefix: string): Logger {
+    const child = new Logger(this.level);
+    child.prefix = `${this.prefix}[${prefix}]`;
+    return child;
+  }
+
   getLevel(): LogLevel {
     return this.level;
   }
@@ -0,0 +1,158 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import * as path from "node:path";
+import { z } from "zod";
+import { LogSanitizer } from "../security/log-sanitizer.js";
+import fetchUiFixture from "./fixtures/fetch-ui.json" with { type: "json" };
+import refineUiFixture from "./fixtures/refine-ui.json" with { type: "json" };
+import healthFixture from "./fixtures/health.json" with { type: "json" };
+
+const FixtureSchema = z.object({
+  request: z.object({
+    method: z.enum(["GET", "POST"]),
+    path: z.string().startsWith("/"),
+    /** Request body fields that must match (trimmed, case-insensitive); omit for a catch-all */
+    match: z.record(z.string(), z.string()).optional(),
+  }),
+  response: z.object({
+    status: z.number().int().min(100).max(599).default(200),
+    headers: z.record(z.string(), z.string()).optional(),
+    body: z.unknown(),
+  }),
+});
+
+export type Fixture = z.infer<typeof FixtureSchema>;
+
+/** Served when no fixture directory entry matches */
+export const DEFAULT_FIXTURES: Fixture[] = [fetchUiFixture, refineUiFixture, healthFixture].map((fixture) =>
+  FixtureSchema.parse(fixture)
+);
+
+/** Body fields recorded as the match for each endpoint; everything else (file contents, context) is dropped */
+export const MATCH_FIELDS: Record<string, string[]> = {
+  "/api/fetch-ui": ["searchQuery", "message"],
+  "/api/refine-ui": ["userMessage"],
+};
+
+/** Response headers worth keeping in recorded fixtures */
+const RECORDED_HEADERS = /^(content-type|retry-after|x-ratelimit-.+|ratelimit-.+)$/i;
+
+const SENSITIVE_KEY = /key|token|secret|password|authorization|cookie|session/i;
+const REDACTED = "[REDACTED]";
+
+/** Reads every `*.json` file in `dir`; each holds one fixture or an array of them. */
+export function loadFixtures(dir: string): Fixture[] {
+  if (!existsSync(dir)) return [];
+
+  const fixtures: Fixture[] = [];
+  for (const name of readdirSync(dir).filter((file) => file.endsWith(".json")).sort()) {
+    const filePath = path.join(dir, name);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(filePath, "utf-8"));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${filePath}: not valid JSON (${message})`);
+    }
+
+    for (const entry of Array.isArray(raw) ? raw : [raw]) {
+      const result = FixtureSchema.safeParse(entry);
+      if (!result.success) {
+        throw new Error(`${filePath}: invalid fixture (${z.prettifyError(result.error)})`);
+      }
+      fixtures.push(result.data);
+    }
+  }
+  return fixtures;
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+/**
+ * Picks the fixture for a request. Fixtures whose `match` fields all agree with
+ * the body win over catch-alls; more matched fields win over fewer; earlier
+ * fixtures win ties.
+ */
+export function findFixture(fixtures: Fixture[], method: string, pathname: string, body: unknown): Fixture | null {
+  const fields = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  let best: { fixture: Fixture; score: number } | null = null;
+
+  for (const fixture of fixtures) {
+    if (fixture.request.method !== method || fixture.request.path !== pathname) continue;
+
+    const match = Object.entries(fixture.request.match ?? {});
+    if (!match.every(([key, value]) => normalize(fields[key]) === normalize(value))) continue;
+
+    if (!best || match.length > best.score) {
+      best = { fixture, score: match.length };
+    }
+  }
+
+  return best?.fixture ?? null;
+}
+
+/** Replaces values under secret-looking keys, known secret strings and token-like text. */
+export function redactSecrets(value: unknown, secrets: string[] = []): unknown {
+  if (typeof value === "string") {
+    let result = value;
+    for (const secret of secrets) {
+      if (secret) result = result.replaceAll(secret, REDACTED);
+    }
+    return LogSanitizer.sanitize(result);
+  }
+  if (Array.isArray(value)) return value.map((item) => redactSecrets(item, secrets));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY.test(key) && typeof item === "string" ? REDACTED : redactSecrets(item, secrets),
+      ])
+    );
+  }
+  return value;
+}
+
+/** Builds a fixture from a live request/response pair with secrets and private request data stripped. */
+export function createRecordedFixture(
+  method: "GET" | "POST",
+  pathname: string,
+  body: unknown,
+  response: { status: number; headers: Headers; body: unknown },
+  secrets: string[]
+): Fixture {
+  const fields = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const match: Record<string, string> = {};
+  for (const key of MATCH_FIELDS[pathname] ?? []) {
+    if (typeof fields[key] === "string") match[key] = redactSecrets(fields[key], secrets) as string;
+  }
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    if (RECORDED_HEADERS.test(key)) headers[key] = value;
+  });
+
+  return {
+    request: { method, path: pathname, ...(Object.keys(match).length > 0 && { match }) },
+    response: {
+      status: response.status,
+      ...(Object.keys(headers).length > 0 && { headers }),
+      body: redactSecrets(response.body, secrets),
+    },
+  };
+}
+
+/** Writes a fixture to `dir` under a name derived from its endpoint and match fields. Returns the file path. */
+export function saveFixture(dir: string, fixture: Fixture): string {
+  const slug = fixture.request.path.replace(/^\/+/, "").replace(/[^a-z0-9]+/gi, "-") || "root";
+  const hash = createHash("sha256")
+    .update(JSON.stringify([fixture.request.method, fixture.request.match ?? {}]))
+    .digest("hex")
+    .slice(0, 8);
+  const filePath = path.join(dir, `${slug}-${hash}.json`);
+
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(filePath, `${JSON.stringify(fixture, null, 2)}\n`);
+  return filePath;
+}
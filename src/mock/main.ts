@@ -0,0 +1,70 @@
+#!/usr/bin/env bun
+
+import { parseArgs } from "node:util";
+import { Logger } from "../logger.js";
+import { MockMagicServer } from "./mock-server.js";
+
+const USAGE = `Usage: magic-mock [options]
+
+Serves /api/fetch-ui, /api/refine-ui and /health from fixture files.
+Point the MCP server at it with DEBUG=true (http://localhost:3005).
+
+Options:
+  --port <port>        Port to listen on (default 3005)
+  --host <host>        Interface to bind (default 127.0.0.1)
+  --fixtures <dir>     Fixture directory, checked before the built-in fixtures
+  --record             Forward requests to the real API and save the responses,
+                       secrets stripped, into --fixtures
+  --upstream <url>     API to record from (default https://magic.21st.dev)
+  --verbose            Log every request
+  --help               Show this help
+`;
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "3005" },
+    host: { type: "string", default: "127.0.0.1" },
+    fixtures: { type: "string" },
+    record: { type: "boolean", default: false },
+    upstream: { type: "string", default: "https://magic.21st.dev" },
+    verbose: { type: "boolean", default: false },
+    help: { type: "boolean", default: false },
+  },
+  strict: true,
+});
+
+if (values.help) {
+  process.stdout.write(USAGE);
+  process.exit(0);
+}
+
+const port = Number(values.port);
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  process.stderr.write(`Invalid --port: ${values.port}\n`);
+  process.exit(1);
+}
+
+const logger = new Logger(values.verbose ? "debug" : "info", "mock");
+
+let server: MockMagicServer;
+try {
+  server = new MockMagicServer({
+    host: values.host,
+    port,
+    fixturesDir: values.fixtures,
+    recordFrom: values.record ? values.upstream : undefined,
+    apiKey: process.env.TWENTY_FIRST_API_KEY ?? process.env.API_KEY,
+    logger,
+  });
+  await server.start();
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+}
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    server.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,195 @@
+import { Outbound } from "../http/outbound.js";
+import type { Logger } from "../logger.js";
+import {
+  DEFAULT_FIXTURES,
+  createRecordedFixture,
+  findFixture,
+  loadFixtures,
+  saveFixture,
+  type Fixture,
+} from "./fixtures.js";
+
+export interface MockMagicServerConfig {
+  host: string;
+  port: number;
+  /** Directory of fixture files; consulted before the built-in fixtures, and written to in record mode */
+  fixturesDir?: string;
+  /** When set, requests are forwarded to this API and the responses saved as fixtures */
+  recordFrom?: string;
+  /** Key used for upstream requests in record mode when the client sends none */
+  apiKey?: string;
+  outbound?: Outbound;
+  logger: Logger;
+}
+
+const ROUTES = new Set(["GET /health", "POST /api/fetch-ui", "POST /api/refine-ui"]);
+
+// Hop-by-hop headers, plus the encoding headers that no longer describe the body once fetch has decoded it
+const UNFORWARDED_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "content-encoding",
+  "content-length",
+]);
+
+function forwardedHeaders(upstream: Headers): Headers {
+  const headers = new Headers();
+  upstream.forEach((value, key) => {
+    if (!UNFORWARDED_HEADERS.has(key.toLowerCase())) headers.append(key, value);
+  });
+  return headers;
+}
+
+/**
+ * Stand-in for the 21st.dev Magic API that serves responses from fixture
+ * files, so tools can be developed and tested offline.
+ */
+export class MockMagicServer {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly fixturesDir?: string;
+  private readonly recordFrom?: string;
+  private readonly apiKey?: string;
+  private readonly outbound: Outbound;
+  private readonly logger: Logger;
+  private fixtures: Fixture[] = [];
+  private server: ReturnType<typeof Bun.serve> | null = null;
+
+  constructor(config: MockMagicServerConfig) {
+    this.host = config.host;
+    this.port = config.port;
+    this.fixturesDir = config.fixturesDir;
+    this.recordFrom = config.recordFrom?.replace(/\/+$/, "");
+    this.apiKey = config.apiKey;
+    this.logger = config.logger;
+    this.outbound = config.outbound ?? new Outbound({ logger: config.logger });
+
+    if (this.recordFrom && !this.fixturesDir) {
+      throw new Error("Record mode needs a fixtures directory to write to");
+    }
+  }
+
+  async start(): Promise<number> {
+    this.reload();
+    this.server = Bun.serve({
+      port: this.port,
+      hostname: this.host,
+      fetch: (req) => this.handleRequest(req),
+    });
+
+    const port = this.server.port!;
+    const mode = this.recordFrom ? `recording from ${this.recordFrom} into ${this.fixturesDir}` : "replaying fixtures";
+    this.logger.info(`Mock Magic API listening on http://${this.host}:${port} (${mode})`);
+    return port;
+  }
+
+  getPort(): number | null {
+    return this.server?.port ?? null;
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  /** Re-reads the fixture directory, e.g. after fixtures were edited or recorded. */
+  reload(): void {
+    this.fixtures = [...(this.fixturesDir ? loadFixtures(this.fixturesDir) : []), ...DEFAULT_FIXTURES];
+  }
+
+  private async handleRequest(req: Request): Promise<Response> {
+    const { pathname } = new URL(req.url);
+    const method = req.method.toUpperCase();
+
+    if (!ROUTES.has(`${method} ${pathname}`)) {
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const authorization = req.headers.get("authorization");
+    if (pathname !== "/health" && !authorization?.startsWith("Bearer ")) {
+      return Response.json({ error: "Missing API key" }, { status: 401 });
+    }
+
+    let body: unknown;
+    if (method === "POST") {
+      try {
+        body = await req.json();
+      } catch {
+        return Response.json({ error: "Request body is not valid JSON" }, { status: 400 });
+      }
+    }
+
+    if (this.recordFrom) {
+      return this.record(method as "GET" | "POST", pathname, body, authorization);
+    }
+
+    const fixture = findFixture(this.fixtures, method, pathname, body);
+    if (!fixture) {
+      this.logger.warn(`No fixture for ${method} ${pathname}`);
+      return Response.json({ error: `No fixture for ${method} ${pathname}` }, { status: 404 });
+    }
+
+    this.logger.debug(`Serving fixture for ${method} ${pathname}`);
+    return Response.json(fixture.response.body, {
+      status: fixture.response.status,
+      headers: fixture.response.headers,
+    });
+  }
+
+  private async record(
+    method: "GET" | "POST",
+    pathname: string,
+    body: unknown,
+    authorization: string | null
+  ): Promise<Response> {
+    const apiKey = authorization?.replace(/^Bearer\s+/, "") || this.apiKey;
+    let upstream: Response;
+    let text: string;
+    try {
+      upstream = await this.outbound.fetch(`${this.recordFrom}${pathname}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+      text = await upstream.text();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Not recording ${method} ${pathname}: upstream request failed: ${message}`);
+      return Response.json({ error: `Upstream request to ${this.recordFrom} failed: ${message}` }, { status: 502 });
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      this.logger.warn(`Not recording ${method} ${pathname}: upstream returned non-JSON (status ${upstream.status})`);
+      return new Response(text, { status: upstream.status, headers: forwardedHeaders(upstream.headers) });
+    }
+
+    const secrets = [apiKey, this.apiKey].filter((value): value is string => Boolean(value));
+    const fixture = createRecordedFixture(
+      method,
+      pathname,
+      body,
+      { status: upstream.status, headers: upstream.headers, body: data },
+      secrets
+    );
+    const filePath = saveFixture(this.fixturesDir!, fixture);
+    this.logger.info(`Recorded ${method} ${pathname} (status ${upstream.status}) to ${filePath}`);
+    this.reload();
+
+    return Response.json(fixture.response.body, {
+      status: fixture.response.status,
+      headers: fixture.response.headers,
+    });
+  }
+}
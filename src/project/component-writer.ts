@@ -0,0 +1,256 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, realpath, rename, stat, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+import type { Logger } from "../logger.js";
+import { createUnifiedDiff } from "../diff/unified-diff.js";
+import { PathValidator } from "../security/path-validator.js";
+
+export type ApplyErrorCode =
+  | "INVALID_TARGET_PATH"
+  | "OVERWRITE_NOT_CONFIRMED"
+  | "FILE_CHANGED"
+  | "NO_CODE_BLOCK"
+  | "DRY_RUN_NOT_FOUND";
+
+export class ApplyError extends Error {
+  readonly code: ApplyErrorCode;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: ApplyErrorCode, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "ApplyError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** Returned by the tools when the server has no ComponentWriter because no workspace root is configured */
+export const APPLY_UNAVAILABLE_MESSAGE =
+  "Apply mode is off until a workspace root is set. Set MAGIC_WORKSPACE_ROOT, or workspaceRoot in the user config file, to the project directory.";
+
+export interface ApplyOptions {
+  dryRun?: boolean;
+  overwrite?: boolean;
+  /** From a dry run: hash of the file it was computed against, null for a new file */
+  baseHash?: string | null;
+  /** From a dry run: hash of the content it showed */
+  contentHash?: string;
+}
+
+/** A target file as it was before generation started; `content` and `hash` are null for a new file. */
+export interface FileSnapshot {
+  path: string;
+  /** Relative to the workspace root, as shown in diffs */
+  relativePath: string;
+  content: string | null;
+  hash: string | null;
+}
+
+export type ApplyResult =
+  | { status: "dry_run"; path: string; diff: string; created: boolean; baseHash: string | null; contentHash: string }
+  | { status: "written"; path: string; diff: string; created: boolean }
+  | { status: "unchanged"; path: string };
+
+const CODE_LANGUAGES = new Set(["tsx", "jsx", "ts", "js", "typescript", "javascript", "react"]);
+
+/** The generated component in `text`: the longest TS/JS fenced block, or the longest unlabeled one. */
+export function extractCodeBlock(text: string): string | null {
+  const blocks = [...text.matchAll(/```([\w-]*)[^\n]*\n([\s\S]*?)```/g)].map(([, language, code]) => ({
+    language: language.toLowerCase(),
+    code,
+  }));
+  const longest = (candidates: typeof blocks) =>
+    candidates.reduce<string | null>((best, { code }) => (best === null || code.length > best.length ? code : best), null);
+  return longest(blocks.filter(({ language }) => CODE_LANGUAGES.has(language))) ?? longest(blocks.filter(({ language }) => !language));
+}
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** Whether the caller passed back a dry run's hashes, asking for exactly that content to be written. */
+export function isReviewedApply(options: ApplyOptions): boolean {
+  return options.baseHash !== undefined || options.contentHash !== undefined;
+}
+
+// Long enough to review a diff, short enough that stale dry runs do not pile up
+const DRY_RUN_TTL_MS = 30 * 60 * 1000;
+
+interface DryRun {
+  content: string;
+  baseHash: string | null;
+  expiresAt: number;
+}
+
+function dryRunKey(filePath: string, contentHash: string): string {
+  return `${filePath}\n${contentHash}`;
+}
+
+export interface ComponentWriterDeps {
+  workspaceRoot: string;
+  logger: Logger;
+}
+
+/**
+ * Writes generated components into the workspace for the tools' opt-in apply
+ * mode. Paths must stay inside the workspace root, and existing files are only
+ * replaced with content the caller reviewed in a dry run, while the file is
+ * still as it was then. Dry runs are kept here until they are written or expire.
+ */
+export class ComponentWriter {
+  private readonly workspaceRoot: string;
+  private readonly logger: Logger;
+  private readonly pathValidator = new PathValidator();
+  private readonly dryRuns = new Map<string, DryRun>();
+
+  constructor(deps: ComponentWriterDeps) {
+    this.workspaceRoot = path.resolve(deps.workspaceRoot);
+    this.logger = deps.logger;
+  }
+
+  /** Validates `targetPath` (absolute or relative to the workspace) and records its current content. */
+  async snapshot(targetPath: string): Promise<FileSnapshot> {
+    const validation = await this.pathValidator.validate(targetPath, this.workspaceRoot);
+    if (!validation.valid || !validation.normalizedPath) {
+      throw new ApplyError("INVALID_TARGET_PATH", `Cannot write to ${targetPath}: ${validation.error}`, {
+        workspaceRoot: this.workspaceRoot,
+      });
+    }
+    const filePath = validation.normalizedPath;
+
+    // PathValidator only resolves symlinks for existing files; a linked directory on the way must not lead outside either
+    let existingDir = path.dirname(filePath);
+    while (!(await stat(existingDir).catch(() => null))) existingDir = path.dirname(existingDir);
+    const [realDir, realRoot] = await Promise.all([realpath(existingDir), realpath(this.workspaceRoot)]);
+    if (realDir !== realRoot && !realDir.startsWith(realRoot + path.sep)) {
+      throw new ApplyError("INVALID_TARGET_PATH", `Cannot write to ${targetPath}: ${existingDir} points outside the workspace`, {
+        workspaceRoot: this.workspaceRoot,
+      });
+    }
+
+    const content = await this.readCurrent(filePath);
+    return {
+      path: filePath,
+      relativePath: path.relative(this.workspaceRoot, filePath),
+      content,
+      hash: content === null ? null : hashContent(content),
+    };
+  }
+
+  /**
+   * Fails before any generation work when an existing file would be replaced by
+   * content nobody reviewed: that needs apply.overwrite plus the hashes of a dry run.
+   */
+  assertWritable(snapshot: FileSnapshot, options: ApplyOptions): void {
+    if (snapshot.content === null || options.dryRun) return;
+    if (!options.overwrite || !isReviewedApply(options)) {
+      throw new ApplyError(
+        "OVERWRITE_NOT_CONFIRMED",
+        `${snapshot.relativePath} already exists. Call with apply.dryRun to see the diff first, then with apply.overwrite set to true and the baseHash and contentHash from the dry run to write exactly that.`,
+        { path: snapshot.path }
+      );
+    }
+  }
+
+  async apply(snapshot: FileSnapshot, content: string, options: ApplyOptions): Promise<ApplyResult> {
+    const created = snapshot.content === null;
+    const newContent = content.endsWith("\n") ? content : `${content}\n`;
+    const diff = createUnifiedDiff(snapshot.content ?? "", newContent, {
+      oldPath: created ? undefined : snapshot.relativePath,
+      newPath: snapshot.relativePath,
+    });
+
+    if (options.dryRun) {
+      const contentHash = hashContent(newContent);
+      this.pruneDryRuns();
+      this.dryRuns.set(dryRunKey(snapshot.path, contentHash), {
+        content: newContent,
+        baseHash: snapshot.hash,
+        expiresAt: Date.now() + DRY_RUN_TTL_MS,
+      });
+      return { status: "dry_run", path: snapshot.path, diff, created, baseHash: snapshot.hash, contentHash };
+    }
+    this.assertWritable(snapshot, options);
+    return this.write(snapshot, newContent, diff, "changed while the component was being generated");
+  }
+
+  /**
+   * Writes exactly the content a dry run showed, without generating again, and
+   * only while the file still has the hash the dry run was computed against.
+   */
+  async applyReviewed(snapshot: FileSnapshot, options: ApplyOptions): Promise<ApplyResult> {
+    this.assertWritable(snapshot, options);
+    const { baseHash, contentHash } = options;
+    if (baseHash === undefined || contentHash === undefined) {
+      throw new ApplyError("DRY_RUN_NOT_FOUND", "Pass both apply.baseHash and apply.contentHash from the dry run. Nothing was written.", {
+        path: snapshot.path,
+      });
+    }
+
+    this.pruneDryRuns();
+    const key = dryRunKey(snapshot.path, contentHash);
+    const dryRun = this.dryRuns.get(key);
+    if (!dryRun || dryRun.baseHash !== baseHash) {
+      throw new ApplyError(
+        "DRY_RUN_NOT_FOUND",
+        `No dry run of ${snapshot.relativePath} matches these hashes; dry runs expire after ${DRY_RUN_TTL_MS / 60_000} minutes and are written only once. Run apply.dryRun again. Nothing was written.`,
+        { path: snapshot.path }
+      );
+    }
+    if (snapshot.hash !== baseHash) {
+      throw new ApplyError(
+        "FILE_CHANGED",
+        `${snapshot.relativePath} changed since the dry run. Nothing was written; run apply.dryRun again to review the changes against the current file.`,
+        { path: snapshot.path }
+      );
+    }
+
+    const diff = createUnifiedDiff(snapshot.content ?? "", dryRun.content, {
+      oldPath: snapshot.content === null ? undefined : snapshot.relativePath,
+      newPath: snapshot.relativePath,
+    });
+    const result = await this.write(snapshot, dryRun.content, diff, "changed since the dry run");
+    this.dryRuns.delete(key);
+    return result;
+  }
+
+  /** Writes `newContent` unless the file no longer matches the snapshot; `changed` says when it would have changed. */
+  private async write(snapshot: FileSnapshot, newContent: string, diff: string, changed: string): Promise<ApplyResult> {
+    if (!diff) return { status: "unchanged", path: snapshot.path };
+
+    const created = snapshot.content === null;
+    const current = await this.readCurrent(snapshot.path);
+    if ((current === null ? null : hashContent(current)) !== snapshot.hash) {
+      throw new ApplyError(
+        "FILE_CHANGED",
+        `${snapshot.relativePath} ${changed}. Nothing was written; review the file and try again.`,
+        { path: snapshot.path }
+      );
+    }
+
+    await mkdir(path.dirname(snapshot.path), { recursive: true });
+    // Write next to the target and rename, so an interrupted write never leaves half a component
+    const tempPath = `${snapshot.path}.${process.pid}.tmp`;
+    await writeFile(tempPath, newContent);
+    await rename(tempPath, snapshot.path);
+
+    this.logger.info(`${created ? "Created" : "Updated"} ${snapshot.path}`);
+    return { status: "written", path: snapshot.path, diff, created };
+  }
+
+  private pruneDryRuns(): void {
+    const now = Date.now();
+    for (const [key, dryRun] of this.dryRuns) {
+      if (dryRun.expiresAt <= now) this.dryRuns.delete(key);
+    }
+  }
+
+  private async readCurrent(filePath: string): Promise<string | null> {
+    const stats = await stat(filePath).catch(() => null);
+    if (!stats) return null;
+    if (!stats.isFile()) {
+      throw new ApplyError("INVALID_TARGET_PATH", `${filePath} is not a regular file`, { path: filePath });
+    }
+    return readFile(filePath, "utf-8");
+  }
+}
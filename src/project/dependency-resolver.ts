@@ -0,0 +1,176 @@
+import { builtinModules } from "node:module";
+import * as path from "node:path";
+import type { Logger } from "../logger.js";
+import { findProjectRoot, isDirectory, isWithin, pathExists, readJsonFile, type PackageJson } from "./files.js";
+
+export type PackageManager = "bun" | "pnpm" | "yarn" | "npm";
+
+export interface DependencyReport {
+  packageManager: PackageManager;
+  /** shadcn/ui components imported from the ui folder that are not in it yet */
+  missingComponents: string[];
+  /** npm packages imported by the snippet that package.json does not list */
+  missingPackages: string[];
+  commands: string[];
+}
+
+interface ComponentsJson {
+  aliases?: { components?: string; ui?: string };
+}
+
+interface Tsconfig {
+  compilerOptions?: { baseUrl?: string; paths?: Record<string, string[]> };
+}
+
+// Checked in order, so a stray package-lock.json next to a pnpm lockfile does not win
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["package-lock.json", "npm"],
+];
+
+const ADD_COMMANDS: Record<PackageManager, { add: string; shadcn: string }> = {
+  bun: { add: "bun add", shadcn: "bunx --bun shadcn@latest add" },
+  pnpm: { add: "pnpm add", shadcn: "pnpm dlx shadcn@latest add" },
+  yarn: { add: "yarn add", shadcn: "yarn shadcn@latest add" },
+  npm: { add: "npm install", shadcn: "npx shadcn@latest add" },
+};
+
+const COMPONENT_EXTENSIONS = [".tsx", ".jsx", ".ts", ".js"];
+
+const IMPORT_PATTERNS = [
+  /\bimport\s+(?:type\s+)?[\w*{}\s,$]*?\s*from\s*["']([^"']+)["']/g,
+  /\bimport\s*["']([^"']+)["']/g,
+  /\bexport\s+(?:type\s+)?[\w*{}\s,$]*?\s*from\s*["']([^"']+)["']/g,
+  /\b(?:require|import)\(\s*["']([^"']+)["']\s*\)/g,
+];
+
+const BUILTIN_MODULES = new Set(builtinModules);
+
+/** Module specifiers imported by the code blocks (or plain code) in `text`, in order of appearance. */
+export function parseImports(text: string): string[] {
+  const specifiers = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of text.matchAll(pattern)) specifiers.add(match[1]);
+  }
+  return [...specifiers];
+}
+
+/** "lodash/debounce" -> "lodash", "@radix-ui/react-slot/dist" -> "@radix-ui/react-slot" */
+function packageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+export interface DependencyResolverDeps {
+  logger: Logger;
+}
+
+/**
+ * Checks a generated snippet's imports against the project it will be added
+ * to, and turns whatever is missing into install commands for the project's
+ * package manager.
+ */
+export class DependencyResolver {
+  private readonly logger: Logger;
+
+  constructor(deps: DependencyResolverDeps) {
+    this.logger = deps.logger;
+  }
+
+  /**
+   * Missing dependencies of `code` for the project containing `filePath`, or
+   * null when there is no project inside `workspaceRoot`.
+   */
+  async resolve(code: string, filePath: string, workspaceRoot: string): Promise<DependencyReport | null> {
+    const root = await findProjectRoot(path.dirname(filePath), workspaceRoot);
+    if (!root) return null;
+
+    const packageJson = (await readJsonFile<PackageJson>(path.join(root, "package.json"), this.logger)) ?? {};
+    const declared = new Set(
+      Object.keys({ ...packageJson.dependencies, ...packageJson.devDependencies, ...packageJson.peerDependencies })
+    );
+    const components = (await readJsonFile<ComponentsJson>(path.join(root, "components.json"), this.logger)) ?? {};
+    const uiAlias = components.aliases?.ui ?? `${components.aliases?.components ?? "@/components"}/ui`;
+    const uiDir = await this.resolveAlias(root, uiAlias);
+
+    const missingComponents: string[] = [];
+    const missingPackages: string[] = [];
+    for (const specifier of parseImports(code)) {
+      if (specifier.startsWith(`${uiAlias}/`)) {
+        const component = specifier.slice(uiAlias.length + 1).split("/")[0];
+        if (!missingComponents.includes(component) && !(uiDir && (await this.hasComponent(uiDir, component)))) {
+          missingComponents.push(component);
+        }
+        continue;
+      }
+      if (!this.isPackageImport(specifier, components)) continue;
+
+      const name = packageName(specifier);
+      if (!declared.has(name) && !missingPackages.includes(name)) missingPackages.push(name);
+    }
+
+    const packageManager = await this.detectPackageManager(root, packageJson, workspaceRoot);
+    const { add, shadcn } = ADD_COMMANDS[packageManager];
+    const commands = [
+      ...(missingComponents.length > 0 ? [`${shadcn} ${missingComponents.join(" ")}`] : []),
+      ...(missingPackages.length > 0 ? [`${add} ${missingPackages.join(" ")}`] : []),
+    ];
+
+    this.logger.debug(`Missing in ${root}: components [${missingComponents.join(", ")}], packages [${missingPackages.join(", ")}]`);
+    return { packageManager, missingComponents, missingPackages, commands };
+  }
+
+  /**
+   * Lockfiles in the project or a monorepo root above it (up to `workspaceRoot`),
+   * then package.json's "packageManager", then npm.
+   */
+  private async detectPackageManager(root: string, packageJson: PackageJson, workspaceRoot: string): Promise<PackageManager> {
+    let dir = root;
+    while (true) {
+      for (const [file, manager] of LOCKFILES) {
+        if (await pathExists(path.join(dir, file))) return manager;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir || !isWithin(parent, workspaceRoot)) break;
+      dir = parent;
+    }
+
+    const declared = packageJson.packageManager?.split("@")[0];
+    return ADD_COMMANDS[declared as PackageManager] ? (declared as PackageManager) : "npm";
+  }
+
+  private isPackageImport(specifier: string, components: ComponentsJson): boolean {
+    if (specifier.startsWith(".") || specifier.startsWith("/")) return false;
+    if (specifier.startsWith("node:") || BUILTIN_MODULES.has(specifier)) return false;
+    // Path aliases such as "@/lib/utils" or "~/hooks" point into the project
+    if (/^[@~#]\//.test(specifier)) return false;
+    return !Object.values(components.aliases ?? {}).some((alias) => alias && specifier.startsWith(`${alias}/`));
+  }
+
+  /** Directory an import alias like "@/components/ui" points to, via tsconfig/jsconfig paths or the usual src/ layout. */
+  private async resolveAlias(root: string, alias: string): Promise<string | null> {
+    for (const name of ["tsconfig.json", "jsconfig.json"]) {
+      const { baseUrl = ".", paths = {} } = (await readJsonFile<Tsconfig>(path.join(root, name), this.logger, { jsonc: true }))?.compilerOptions ?? {};
+      for (const [pattern, targets] of Object.entries(paths)) {
+        const prefix = pattern.replace(/\*$/, "");
+        if (!pattern.endsWith("*") || !alias.startsWith(prefix) || !targets[0]) continue;
+        return path.resolve(root, baseUrl, targets[0].replace(/\*$/, ""), alias.slice(prefix.length));
+      }
+    }
+
+    const match = alias.match(/^[@~]\/(.*)$/);
+    if (!match) return null;
+    const base = (await isDirectory(path.join(root, "src"))) ? path.join(root, "src") : root;
+    return path.join(base, match[1]);
+  }
+
+  private async hasComponent(uiDir: string, component: string): Promise<boolean> {
+    for (const extension of COMPONENT_EXTENSIONS) {
+      if (await pathExists(path.join(uiDir, `${component}${extension}`))) return true;
+    }
+    return isDirectory(path.join(uiDir, component));
+  }
+}
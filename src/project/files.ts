@@ -0,0 +1,107 @@
+import { readFile, stat } from "node:fs/promises";
+import * as path from "node:path";
+import type { Logger } from "../logger.js";
+
+export interface PackageJson {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  /** Corepack's "<name>@<version>" */
+  packageManager?: string;
+}
+
+export async function pathExists(filePath: string): Promise<boolean> {
+  return stat(filePath).then(() => true, () => false);
+}
+
+export async function isDirectory(dir: string): Promise<boolean> {
+  return stat(dir).then((stats) => stats.isDirectory(), () => false);
+}
+
+/** Whether `dir` is `root` or a directory below it. */
+export function isWithin(dir: string, root: string): boolean {
+  const relative = path.relative(path.resolve(root), path.resolve(dir));
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * The nearest directory at or above `dir` with a package.json, or null. The
+ * walk stops at `stopAt`, so nothing above the workspace root is looked at.
+ */
+export async function findProjectRoot(dir: string, stopAt: string): Promise<string | null> {
+  let current = path.resolve(dir);
+  if (!isWithin(current, stopAt)) return null;
+  while (true) {
+    if (await pathExists(path.join(current, "package.json"))) return current;
+    const parent = path.dirname(current);
+    if (parent === current || !isWithin(parent, stopAt)) return null;
+    current = parent;
+  }
+}
+
+/** Index just past the JSON string literal starting at `start`. */
+function skipString(text: string, start: number): number {
+  let i = start + 1;
+  while (i < text.length && text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+  return i + 1;
+}
+
+/**
+ * Parses JSONC, the JSON-with-comments-and-trailing-commas dialect that
+ * tsconfig.json and jsconfig.json are written in.
+ */
+export function parseJsonc(text: string): unknown {
+  let withoutComments = "";
+  for (let i = 0; i < text.length; ) {
+    if (text[i] === '"') {
+      const end = skipString(text, i);
+      withoutComments += text.slice(i, end);
+      i = end;
+    } else if (text.startsWith("//", i)) {
+      const lineEnd = text.indexOf("\n", i);
+      i = lineEnd === -1 ? text.length : lineEnd;
+    } else if (text.startsWith("/*", i)) {
+      const close = text.indexOf("*/", i + 2);
+      i = close === -1 ? text.length : close + 2;
+    } else {
+      withoutComments += text[i++];
+    }
+  }
+
+  const closesNext = /\s*[}\]]/y;
+  let json = "";
+  for (let i = 0; i < withoutComments.length; ) {
+    if (withoutComments[i] === '"') {
+      const end = skipString(withoutComments, i);
+      json += withoutComments.slice(i, end);
+      i = end;
+    } else if (withoutComments[i] === ",") {
+      closesNext.lastIndex = i + 1;
+      // Trailing commas are dropped
+      if (!closesNext.test(withoutComments)) json += ",";
+      i++;
+    } else {
+      json += withoutComments[i++];
+    }
+  }
+  return JSON.parse(json);
+}
+
+/**
+ * Parsed JSON, or null when the file is missing or not valid JSON (logged at
+ * debug level). Set `jsonc` for files that may contain comments and trailing commas.
+ */
+export async function readJsonFile<T>(filePath: string, logger: Logger, options: { jsonc?: boolean } = {}): Promise<T | null> {
+  let text: string;
+  try {
+    text = await readFile(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+  try {
+    return (options.jsonc ? parseJsonc(text) : JSON.parse(text)) as T;
+  } catch (error) {
+    logger.debug(`Ignoring unparsable ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
@@ -0,0 +1,173 @@
+import * as path from "node:path";
+import type { Logger } from "../logger.js";
+import { findProjectRoot, isDirectory, pathExists, readJsonFile, type PackageJson } from "./files.js";
+
+export type FrameworkName = "nextjs" | "remix" | "astro" | "vite";
+
+/** What the generation APIs need to know to produce code that fits the project's stack. */
+export interface ProjectContext {
+  framework: { name: FrameworkName; version: string | null; router?: "app" | "pages" } | null;
+  language: "typescript" | "javascript";
+  react: PackageVersion | null;
+  tailwind: (PackageVersion & { config: string | null }) | null;
+  shadcn: ShadcnConfig | null;
+  iconLibrary: string | null;
+}
+
+export interface PackageVersion {
+  /** Installed version when node_modules is present, otherwise the declared range */
+  version: string;
+  major: number | null;
+}
+
+export interface ShadcnConfig {
+  style?: string;
+  baseColor?: string;
+  cssVariables?: boolean;
+  rsc?: boolean;
+  tsx?: boolean;
+  iconLibrary?: string;
+  aliases?: Record<string, string>;
+}
+
+// Checked in order: Remix and Astro projects usually depend on Vite as well
+const FRAMEWORK_PACKAGES: Array<[FrameworkName, string[]]> = [
+  ["nextjs", ["next"]],
+  ["remix", ["@remix-run/react", "@remix-run/dev"]],
+  ["astro", ["astro"]],
+  ["vite", ["vite"]],
+];
+
+const ICON_PACKAGES: Record<string, string> = {
+  "lucide-react": "lucide",
+  "@radix-ui/react-icons": "radix",
+  "@tabler/icons-react": "tabler",
+  "@heroicons/react": "heroicons",
+  "@phosphor-icons/react": "phosphor",
+  "react-icons": "react-icons",
+};
+
+const TAILWIND_CONFIG_FILES = ["tailwind.config.ts", "tailwind.config.js", "tailwind.config.mjs", "tailwind.config.cjs"];
+
+export interface ProjectInspectorDeps {
+  logger: Logger;
+}
+
+/**
+ * Detects the stack of the project a file belongs to from its package.json,
+ * config files and installed packages. Nothing is executed and no file
+ * contents other than package and config metadata are read.
+ */
+export class ProjectInspector {
+  private readonly logger: Logger;
+
+  constructor(deps: ProjectInspectorDeps) {
+    this.logger = deps.logger;
+  }
+
+  /** Context for the project containing `filePath`, or null when no package.json is found above it inside `workspaceRoot`. */
+  async inspect(filePath: string, workspaceRoot: string): Promise<ProjectContext | null> {
+    const root = await findProjectRoot(path.dirname(filePath), workspaceRoot);
+    if (!root) return null;
+
+    const packageJson = (await readJsonFile<PackageJson>(path.join(root, "package.json"), this.logger)) ?? {};
+    const dependencies = { ...packageJson.devDependencies, ...packageJson.dependencies };
+
+    const hasTsconfig = await pathExists(path.join(root, "tsconfig.json"));
+    const shadcn = await this.readShadcnConfig(root);
+    const context: ProjectContext = {
+      framework: await this.detectFramework(root, filePath, dependencies),
+      language: hasTsconfig || "typescript" in dependencies ? "typescript" : "javascript",
+      react: await this.packageVersion(root, "react", dependencies),
+      tailwind: await this.detectTailwind(root, dependencies),
+      shadcn,
+      iconLibrary: shadcn?.iconLibrary ?? Object.entries(ICON_PACKAGES).find(([name]) => name in dependencies)?.[1] ?? null,
+    };
+
+    this.logger.debug(`Project context for ${root}: ${JSON.stringify(context)}`);
+    return context;
+  }
+
+  private async detectFramework(
+    root: string,
+    filePath: string,
+    dependencies: Record<string, string>
+  ): Promise<ProjectContext["framework"]> {
+    const match = FRAMEWORK_PACKAGES.find(([, packages]) => packages.some((name) => name in dependencies));
+    if (!match) return null;
+
+    const [name, packages] = match;
+    const installed = await this.packageVersion(root, packages.find((pkg) => pkg in dependencies)!, dependencies);
+    const framework: NonNullable<ProjectContext["framework"]> = { name, version: installed?.version ?? null };
+    if (name === "nextjs") {
+      const router = await this.detectNextRouter(root, filePath);
+      if (router) framework.router = router;
+    }
+    return framework;
+  }
+
+  /** The router the file belongs to, or the one the project uses when the file is elsewhere (e.g. components/). */
+  private async detectNextRouter(root: string, filePath: string): Promise<"app" | "pages" | null> {
+    const routerDirs = (["app", "pages"] as const).flatMap((router) => [
+      { router, dir: path.join(root, router) },
+      { router, dir: path.join(root, "src", router) },
+    ]);
+
+    const containing = routerDirs.find(({ dir }) => filePath.startsWith(dir + path.sep));
+    if (containing) return containing.router;
+
+    for (const { router, dir } of routerDirs) {
+      if (await isDirectory(dir)) return router;
+    }
+    return null;
+  }
+
+  private async detectTailwind(root: string, dependencies: Record<string, string>): Promise<ProjectContext["tailwind"]> {
+    const version = await this.packageVersion(root, "tailwindcss", dependencies);
+    if (!version) return null;
+
+    // Tailwind 4 is configured in CSS, so there may be no config file at all
+    let config: string | null = null;
+    for (const name of TAILWIND_CONFIG_FILES) {
+      if (await pathExists(path.join(root, name))) {
+        config = name;
+        break;
+      }
+    }
+    return { ...version, config };
+  }
+
+  private async readShadcnConfig(root: string): Promise<ShadcnConfig | null> {
+    const data = await readJsonFile<Record<string, unknown>>(path.join(root, "components.json"), this.logger);
+    if (!data) return null;
+
+    const tailwind = (data.tailwind ?? {}) as Record<string, unknown>;
+    const config: ShadcnConfig = {};
+    if (typeof data.style === "string") config.style = data.style;
+    if (typeof tailwind.baseColor === "string") config.baseColor = tailwind.baseColor;
+    if (typeof tailwind.cssVariables === "boolean") config.cssVariables = tailwind.cssVariables;
+    if (typeof data.rsc === "boolean") config.rsc = data.rsc;
+    if (typeof data.tsx === "boolean") config.tsx = data.tsx;
+    if (typeof data.iconLibrary === "string") config.iconLibrary = data.iconLibrary;
+    if (typeof data.aliases === "object" && data.aliases !== null) {
+      config.aliases = Object.fromEntries(
+        Object.entries(data.aliases).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+      );
+    }
+    return config;
+  }
+
+  private async packageVersion(
+    root: string,
+    name: string,
+    dependencies: Record<string, string>
+  ): Promise<PackageVersion | null> {
+    const declared = dependencies[name];
+    if (declared === undefined) return null;
+
+    const installed = await readJsonFile<{ version?: unknown }>(path.join(root, "node_modules", name, "package.json"), this.logger);
+    const version = typeof installed?.version === "string" ? installed.version : declared;
+    const major = version.match(/(\d+)/);
+    return { version, major: major ? Number(major[1]) : null };
+  }
+}
@@ -0,0 +1,69 @@
+import { homedir } from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { isBroadWorkspaceRoot } from "../config.js";
+import { getRequestContext } from "../request-context.js";
+import { PathValidator } from "../security/path-validator.js";
+import { findProjectRoot } from "./files.js";
+
+/** A file the tools may read, and the root it was found under; project lookups stop at that root. */
+export interface ProjectFile {
+  path: string;
+  root: string;
+}
+
+export type ProjectFileResult = { valid: true; file: ProjectFile } | { valid: false; error: string };
+
+/** Local directories among the roots an MCP client shares; other URI schemes are skipped. */
+export function rootUriPaths(uris: string[]): string[] {
+  return uris.flatMap((uri) => {
+    try {
+      return uri.startsWith("file:") ? [fileURLToPath(uri)] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/** The project the server was started in: the nearest directory with a package.json at or above `cwd`, else `cwd`. */
+async function cwdProjectRoot(cwd: string): Promise<string> {
+  const resolved = path.resolve(cwd);
+  return (await findProjectRoot(resolved, path.parse(resolved).root)) ?? resolved;
+}
+
+/**
+ * Directories the tools may read project files from: the configured workspace
+ * root, else the roots the MCP client shares, else the project the server was
+ * started in. The filesystem root and the home directory are never used.
+ */
+export async function readRoots(workspaceRoot?: string, cwd = process.cwd()): Promise<string[]> {
+  if (workspaceRoot) return [path.resolve(workspaceRoot)];
+
+  const notBroad = (dir: string) => !isBroadWorkspaceRoot(dir, cwd, homedir());
+  const clientRoots = ((await getRequestContext()?.clientRoots?.()) ?? []).filter(notBroad);
+  if (clientRoots.length > 0) return clientRoots;
+
+  const root = await cwdProjectRoot(cwd);
+  return notBroad(root) ? [root] : [];
+}
+
+/** Validates `filePath` against the read roots; the first root containing it wins. */
+export async function resolveProjectFile(filePath: string, workspaceRoot?: string, cwd?: string): Promise<ProjectFileResult> {
+  const roots = await readRoots(workspaceRoot, cwd);
+  if (roots.length === 0) {
+    return {
+      valid: false,
+      error:
+        "no project directory to read from. Set MAGIC_WORKSPACE_ROOT, or workspaceRoot in the user config file, or start the server inside the project",
+    };
+  }
+
+  const validator = new PathValidator();
+  let error = "";
+  for (const root of roots) {
+    const validation = await validator.validate(filePath, root);
+    if (validation.valid && validation.normalizedPath) return { valid: true, file: { path: validation.normalizedPath, root } };
+    error = validation.error ?? error;
+  }
+  return { valid: false, error: `${error} (${roots.join(", ")})` };
+}
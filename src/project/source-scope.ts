@@ -0,0 +1,281 @@
+export type ScopeErrorCode = "INVALID_SCOPE" | "SYMBOL_NOT_FOUND";
+
+export class ScopeError extends Error {
+  readonly code: ScopeErrorCode;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: ScopeErrorCode, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "ScopeError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export interface ScopeOptions {
+  symbol?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+/** The part of a file being refined; lines are 1-based and inclusive. */
+export interface SourceScope {
+  startLine: number;
+  endLine: number;
+  source: string;
+  /** Import statements outside the range, sent along for context */
+  imports: string[];
+  /** The range itself contains import statements, so the refined code keeps its own */
+  includesImports: boolean;
+  label: string;
+}
+
+interface ImportStatement {
+  text: string;
+  specifier: string;
+  start: number;
+  end: number;
+}
+
+const IMPORT_STATEMENT = /^import\s[^;]*?["']([^"'\n]+)["'];?/gm;
+// Matched against normalize()d statements, which have no trailing semicolon
+const NAMED_IMPORT = /^import\s+(type\s+)?(?:([\w$]+)\s*,\s*)?\{([^}]*)\}\s*from\s*(["'])([^"']+)\4$/;
+const DIRECTIVE = /^\s*["']use (?:client|server)["'];?[^\S\n]*\n/;
+const COMMENT_LINE = /^\s*(?:\/\/|\/\*|\*)/;
+// A line ending like this, or a next line starting like this, continues the statement
+const CONTINUED_LINE_END = /(?:[=,([{?:&|+\-*.<]|=>)\s*$/;
+const CONTINUATION_START = /^\s*(?:[.?:&|+*,)\]}>]|=>)/;
+
+function findImports(text: string): ImportStatement[] {
+  return [...text.matchAll(IMPORT_STATEMENT)].map((match) => ({
+    text: match[0],
+    specifier: match[1],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+function normalize(statement: string): string {
+  return statement.replace(/\s+/g, " ").replace(/;$/, "").trim();
+}
+
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) if (text[i] === "\n") line++;
+  return line;
+}
+
+function skipQuoted(text: string, start: number): number {
+  const quote = text[start];
+  let i = start + 1;
+  while (i < text.length && text[i] !== quote && text[i] !== "\n") i += text[i] === "\\" ? 2 : 1;
+  return text[i] === quote ? i + 1 : i;
+}
+
+function skipTemplate(text: string, start: number): number {
+  let i = start + 1;
+  while (i < text.length) {
+    if (text[i] === "\\") i += 2;
+    else if (text[i] === "`") return i + 1;
+    else if (text[i] === "$" && text[i + 1] === "{") i = skipBraces(text, i + 1);
+    else i++;
+  }
+  return i;
+}
+
+function skipBraces(text: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'") i = skipQuoted(text, i);
+    else if (ch === "`") i = skipTemplate(text, i);
+    else {
+      if (ch === "{") depth++;
+      else if (ch === "}" && --depth === 0) return i + 1;
+      i++;
+    }
+  }
+  return i;
+}
+
+/**
+ * Offset just past the top-level statement starting at `start`. Strings,
+ * comments and template literals are skipped; apostrophes in JSX text can only
+ * confuse the scan until the end of their line.
+ */
+function findStatementEnd(text: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "/" && text[i + 1] === "/") {
+      const lineEnd = text.indexOf("\n", i);
+      i = lineEnd === -1 ? text.length : lineEnd;
+      continue;
+    }
+    if (ch === "/" && text[i + 1] === "*") {
+      const close = text.indexOf("*/", i + 2);
+      i = close === -1 ? text.length : close + 2;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      i = skipQuoted(text, i);
+      continue;
+    }
+    if (ch === "`") {
+      i = skipTemplate(text, i);
+      continue;
+    }
+
+    if ("({[".includes(ch)) depth++;
+    else if (")}]".includes(ch)) depth--;
+    else if (ch === ";" && depth === 0) return i + 1;
+    else if (ch === "\n" && depth === 0) {
+      const lineStart = text.lastIndexOf("\n", i - 1) + 1;
+      const current = text.slice(lineStart, i).replace(/\/\/.*$/, "");
+      const next = text.slice(i + 1).match(/^\s*[^\n]*/)?.[0] ?? "";
+      // `export function Hero()` with its brace on the next line is still the same statement
+      if (current.trim() && !CONTINUED_LINE_END.test(current) && !CONTINUATION_START.test(next) && !next.trim().startsWith("{")) {
+        return i;
+      }
+    }
+    i++;
+  }
+  return text.length;
+}
+
+function escapeName(symbol: string): string {
+  return symbol.replace(/[$]/g, "\\$");
+}
+
+function declarationPattern(symbol: string): RegExp {
+  const name = escapeName(symbol);
+  return new RegExp(
+    `^(?:export\\s+(?:default\\s+)?)?(?:declare\\s+)?(?:async\\s+)?(?:(?:function\\s*\\*?|abstract\\s+class|class|const|let|var|interface|type|enum)\\s+)${name}(?![\\w$])`,
+    "m"
+  );
+}
+
+function declaredNames(text: string): string[] {
+  const names = text.matchAll(
+    /^(?:export\s+(?:default\s+)?)?(?:async\s+)?(?:function\s*\*?|class|const|let|var)\s+([A-Z][\w$]*)/gm
+  );
+  return [...new Set([...names].map(([, name]) => name))];
+}
+
+function symbolRange(content: string, symbol: string): { startLine: number; endLine: number } {
+  const declaration = declarationPattern(symbol).exec(content);
+  if (!declaration) {
+    throw new ScopeError("SYMBOL_NOT_FOUND", `No top-level declaration of ${symbol} found in the file`, {
+      declared: declaredNames(content).slice(0, 20),
+    });
+  }
+
+  let end = findStatementEnd(content, declaration.index);
+  // Keep `Button.displayName = "Button"` and similar assignments with their component
+  const member = new RegExp(`^;?\\s*(?=${escapeName(symbol)}\\.[\\w$]+\\s*=)`);
+  for (let next = member.exec(content.slice(end)); next; next = member.exec(content.slice(end))) {
+    end = findStatementEnd(content, end + next[0].length);
+  }
+
+  const lines = content.split("\n");
+  let startLine = lineAt(content, declaration.index);
+  // Doc comments and eslint-disable lines belong to the declaration below them
+  while (startLine > 1 && COMMENT_LINE.test(lines[startLine - 2])) startLine--;
+  return { startLine, endLine: lineAt(content, Math.max(end - 1, declaration.index)) };
+}
+
+/** Finds the lines to refine, by symbol name or by an explicit line range. */
+export function resolveScope(content: string, options: ScopeOptions): SourceScope {
+  const { symbol, startLine, endLine } = options;
+  const lines = content.split("\n");
+  const lineCount = content.endsWith("\n") ? lines.length - 1 : lines.length;
+
+  let range: { startLine: number; endLine: number };
+  if (symbol !== undefined) {
+    if (startLine !== undefined || endLine !== undefined) {
+      throw new ScopeError("INVALID_SCOPE", "Give either scope.symbol or scope.startLine and scope.endLine, not both");
+    }
+    range = symbolRange(content, symbol);
+  } else {
+    if (startLine === undefined || endLine === undefined) {
+      throw new ScopeError("INVALID_SCOPE", "scope needs a symbol, or both startLine and endLine");
+    }
+    if (startLine > endLine || endLine > lineCount) {
+      throw new ScopeError("INVALID_SCOPE", `Lines ${startLine}-${endLine} are not a valid range in a ${lineCount}-line file`, {
+        lineCount,
+      });
+    }
+    range = { startLine, endLine };
+  }
+
+  const imports = findImports(content).map((statement) => ({
+    ...statement,
+    startLine: lineAt(content, statement.start),
+    endLine: lineAt(content, statement.end),
+  }));
+  const inRange = (statement: { startLine: number; endLine: number }) =>
+    statement.endLine >= range.startLine && statement.startLine <= range.endLine;
+  const lineLabel = `lines ${range.startLine}-${range.endLine}`;
+
+  return {
+    ...range,
+    source: lines.slice(range.startLine - 1, range.endLine).join("\n"),
+    imports: imports.filter((statement) => !inRange(statement)).map((statement) => statement.text),
+    includesImports: imports.some(inRange),
+    label: symbol === undefined ? lineLabel : `${symbol} (${lineLabel})`,
+  };
+}
+
+/** What gets sent in place of the whole file: the file's imports, then the scoped code. */
+export function scopedSource(scope: SourceScope): string {
+  return scope.imports.length > 0 ? `${scope.imports.join("\n")}\n\n${scope.source}` : scope.source;
+}
+
+function mergeImport(text: string, statement: ImportStatement): string {
+  const imports = findImports(text);
+  if (imports.some((existing) => normalize(existing.text) === normalize(statement.text))) return text;
+
+  const existing = imports.find((candidate) => candidate.specifier === statement.specifier);
+  if (!existing) {
+    // New module: goes after the last import, or below a "use client" directive
+    const offset = imports.at(-1)?.end ?? text.match(DIRECTIVE)?.[0].length ?? 0;
+    return offset === 0 ? `${statement.text}\n${text}` : `${text.slice(0, offset)}\n${statement.text}${text.slice(offset)}`;
+  }
+
+  // Same module: add missing named bindings, but never drop ones the rest of the file may use
+  const current = normalize(existing.text).match(NAMED_IMPORT);
+  const refined = normalize(statement.text).match(NAMED_IMPORT);
+  if (!current || !refined || current[1] !== refined[1] || (refined[2] && refined[2] !== current[2])) return text;
+  const names = (list: string) => list.split(",").map((name) => name.trim()).filter(Boolean);
+  const merged = [...new Set([...names(current[3]), ...names(refined[3])])];
+  if (merged.length === names(current[3]).length) return text;
+
+  const [, typeOnly = "", defaultImport, , quote] = current;
+  const semicolon = existing.text.endsWith(";") ? ";" : "";
+  const rewritten = `import ${typeOnly}${defaultImport ? `${defaultImport}, ` : ""}{ ${merged.join(", ")} } from ${quote}${existing.specifier}${quote}${semicolon}`;
+  return `${text.slice(0, existing.start)}${rewritten}${text.slice(existing.end)}`;
+}
+
+/**
+ * Puts refined code back in place of the scoped lines. Imports in the refined
+ * code are merged into the file's imports instead of being pasted mid-file.
+ */
+export function spliceScope(content: string, scope: SourceScope, refinedCode: string): string {
+  const contextImports = new Set(scope.imports.map(normalize));
+  const refinedImports = findImports(refinedCode).filter(
+    (statement) => !scope.includesImports || contextImports.has(normalize(statement.text))
+  );
+
+  let body = refinedCode;
+  for (const statement of [...refinedImports].reverse()) {
+    body = body.slice(0, statement.start) + body.slice(statement.end);
+  }
+  if (scope.startLine > 1) body = body.replace(DIRECTIVE, "");
+  body = body.replace(/^(?:[^\S\n]*\n)+/, "").trimEnd();
+
+  const lines = content.split("\n");
+  const spliced = [...lines.slice(0, scope.startLine - 1), ...body.split("\n"), ...lines.slice(scope.endLine)].join("\n");
+  return refinedImports.reduce(mergeImport, spliced);
+}
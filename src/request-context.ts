@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import type { Logger } from "./logger.js";
+
+export interface RequestContext {
+  /** Short id that ties a tool call to its log lines, API requests and error output */
+  requestId: string;
+  tool: string;
+  /** Config profile the server was started with, reported back with each call */
+  profile?: string;
+  /** Level the client set with logging/setLevel when the call started; unset means it gets every level */
+  clientLogLevel?: LoggingLevel;
+  /** Directories the client shares as MCP roots, listed on first use */
+  clientRoots?: () => Promise<string[]>;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function createRequestId(): string {
+  return crypto.randomUUID().slice(0, 8);
+}
+
+/** Runs `fn` (and everything it starts, including background work) as part of one tool call. */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/** Child of `logger` prefixed with the current request id, or `logger` itself outside a tool call. */
+export function requestLogger(logger: Logger): Logger {
+  const context = storage.getStore();
+  return context ? logger.child(context.requestId) : logger;
+}
@@ -0,0 +1,122 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from "node:fs";
+import * as path from "node:path";
+
+export const CREDENTIALS_FILE_NAME = "credentials.json";
+
+interface CredentialsFile {
+  apiKey?: string;
+  profiles?: Record<string, { apiKey: string }>;
+}
+
+function isKey(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isCredentialsFile(data: unknown): data is CredentialsFile {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) return false;
+  const { apiKey, profiles } = data as Record<string, unknown>;
+  if (apiKey === undefined && profiles === undefined) return false;
+  if (apiKey !== undefined && !isKey(apiKey)) return false;
+  if (profiles === undefined) return true;
+  if (typeof profiles !== "object" || profiles === null || Array.isArray(profiles)) return false;
+  return Object.values(profiles).every((entry) => isKey((entry as { apiKey?: unknown } | null)?.apiKey));
+}
+
+export class CredentialsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialsError";
+  }
+}
+
+/**
+ * Stores the API key in a JSON file only the current user can read, so it
+ * does not have to be passed as a CLI argument (visible in `ps`) or kept in
+ * shell profiles.
+ */
+export class CredentialsStore {
+  readonly filePath: string;
+
+  constructor(dir: string) {
+    this.filePath = path.join(dir, CREDENTIALS_FILE_NAME);
+  }
+
+  /** The API key stored for the profile (or the default key without one), or null when there is none. */
+  read(profile?: string): string | null {
+    const data = this.load();
+    if (!data) return null;
+    return (profile ? data.profiles?.[profile]?.apiKey : data.apiKey) ?? null;
+  }
+
+  save(apiKey: string, profile?: string): void {
+    let data: CredentialsFile = {};
+    try {
+      data = this.load() ?? {};
+    } catch {
+      // Replace a broken or too-open file instead of refusing to log in
+    }
+
+    if (profile) {
+      data.profiles = { ...data.profiles, [profile]: { apiKey } };
+    } else {
+      data.apiKey = apiKey;
+    }
+    this.write(data);
+  }
+
+  /** Deletes the key stored for the profile (or the default key). Returns false when there was none. */
+  remove(profile?: string): boolean {
+    const data = this.load();
+    if (!data) return false;
+
+    if (profile) {
+      if (!data.profiles?.[profile]) return false;
+      delete data.profiles[profile];
+      if (Object.keys(data.profiles).length === 0) delete data.profiles;
+    } else {
+      if (data.apiKey === undefined) return false;
+      delete data.apiKey;
+    }
+
+    if (Object.keys(data).length === 0) {
+      unlinkSync(this.filePath);
+    } else {
+      this.write(data);
+    }
+    return true;
+  }
+
+  private load(): CredentialsFile | null {
+    if (!existsSync(this.filePath)) return null;
+
+    // Like ssh, refuse keys that other users could have read (or replaced)
+    if (process.platform !== "win32" && (statSync(this.filePath).mode & 0o077) !== 0) {
+      throw new CredentialsError(
+        `${this.filePath} is accessible by other users; run \`chmod 600 ${this.filePath}\` or \`magic login\` again`
+      );
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(this.filePath, "utf-8"));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CredentialsError(`${this.filePath}: not valid JSON (${message})`);
+    }
+
+    if (!isCredentialsFile(data)) {
+      throw new CredentialsError(`${this.filePath}: expected {"apiKey": "..."} and/or {"profiles": {"<name>": {"apiKey": "..."}}}`);
+    }
+    return data;
+  }
+
+  private write(data: CredentialsFile): void {
+    mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    // Write to a private temp file and rename, so the key is never briefly world-readable
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, `${JSON.stringify(data, null, 2)}\n`, { mode: 0o600 });
+    chmodSync(tempPath, 0o600);
+    renameSync(tempPath, this.filePath);
+  }
+}
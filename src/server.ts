@@ -1,22 +1,37 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RootsListChangedNotificationSchema, SetLevelRequestSchema, type LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
 import type { Config } from "./config.js";
 import type { HttpClient } from "./http/client.js";
+import type { Outbound } from "./http/outbound.js";
 import type { BrowserDetector } from "./browser/detector.js";
 import type { Logger } from "./logger.js";
+import type { BaseTool, ToolSession } from "./tools/base-tool.js";
+import { HttpSessionServer } from "./transport/http-server.js";
 
 import { CreateUiTool } from "./tools/create-ui.tool.js";
 import { FetchUiTool } from "./tools/fetch-ui.tool.js";
 import { RefineUiTool } from "./tools/refine-ui.tool.js";
 import { LogoSearchTool } from "./tools/logo-search.tool.js";
-import { HealthCheckTool } from "./tools/health-check.tool.js";
+import { HealthCheckTool, type DisabledTool } from "./tools/health-check.tool.js";
 import { CanvasUiTool } from "./tools/canvas-ui.tool.js";
+import { JobStatusTool } from "./tools/job-status.tool.js";
+import { JobResultTool } from "./tools/job-result.tool.js";
+import { JobCancelTool } from "./tools/job-cancel.tool.js";
+import { JobStore } from "./jobs/job-store.js";
+import { ProjectInspector } from "./project/project-inspector.js";
+import { DependencyResolver } from "./project/dependency-resolver.js";
+import { ComponentWriter } from "./project/component-writer.js";
+import { rootUriPaths } from "./project/read-roots.js";
 
 const VERSION = "2.0.0";
 
+const JOB_TOOL_NAMES = ["magic_component_job_status", "magic_component_job_result", "magic_component_job_cancel"];
+
 export interface MagicServerConfig {
   config: Config;
   httpClient: HttpClient;
+  outbound: Outbound;
   browserDetector: BrowserDetector;
   logger: Logger;
 }
@@ -24,61 +39,177 @@ export interface MagicServerConfig {
 export class MagicServer {
   private readonly config: Config;
   private readonly httpClient: HttpClient;
+  private readonly outbound: Outbound;
   private readonly browserDetector: BrowserDetector;
   private readonly logger: Logger;
+  private readonly jobStore: JobStore;
+  private tools: BaseTool[] | null = null;
   private transport: StdioServerTransport | null = null;
+  private httpServer: HttpSessionServer | null = null;
   private isShuttingDown = false;
 
   constructor(deps: MagicServerConfig) {
     this.config = deps.config;
     this.httpClient = deps.httpClient;
+    this.outbound = deps.outbound;
     this.browserDetector = deps.browserDetector;
     this.logger = deps.logger;
+    this.jobStore = new JobStore({ ttlMs: this.config.jobTtl, logger: this.logger });
   }
 
   async start(): Promise<void> {
-    const server = new McpServer({
-      name: "magic-mcp",
-      version: VERSION,
+    const tools = this.getTools();
+
+    if (this.config.transport === "http") {
+      this.httpServer = new HttpSessionServer({
+        host: this.config.host,
+        port: this.config.port,
+        createServer: () => this.createMcpServer(tools),
+        logger: this.logger,
+      });
+      await this.httpServer.start();
+    } else {
+      this.transport = new StdioServerTransport();
+      await this.createMcpServer(tools).connect(this.transport);
+    }
+
+    const profile = this.config.profile ? `, profile: ${this.config.profile}` : "";
+    this.logger.info(`MagicServer v${VERSION} started (PID: ${process.pid}, transport: ${this.config.transport}${profile})`);
+  }
+
+  private createMcpServer(tools: BaseTool[]): McpServer {
+    const server = new McpServer(
+      {
+        name: "magic-mcp",
+        version: VERSION,
+      },
+      // Streamed API output is forwarded to clients as log notifications
+      { capabilities: { logging: {} } }
+    );
+
+    // Each session has its own McpServer, so this is the level of the session's client
+    let clientLogLevel: LoggingLevel | undefined;
+    server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      clientLogLevel = request.params.level;
+      return {};
     });
 
-    // Create and register tools with injected dependencies
-    const tools = [
+    // Listed when a tool first needs them, and again after the client reports a change
+    let clientRoots: Promise<string[]> | undefined;
+    server.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      clientRoots = undefined;
+    });
+    const listRoots = (): Promise<string[]> => {
+      if (!server.server.getClientCapabilities()?.roots) return Promise.resolve([]);
+      clientRoots ??= server.server.listRoots().then(
+        ({ roots }) => rootUriPaths(roots.map((root) => root.uri)),
+        (error) => {
+          this.logger.debug(`Could not list the client's roots: ${error instanceof Error ? error.message : String(error)}`);
+          clientRoots = undefined;
+          return [];
+        }
+      );
+      return clientRoots;
+    };
+
+    const session: ToolSession = { clientLogLevel: () => clientLogLevel, clientRoots: listRoots };
+    for (const tool of tools) {
+      tool.register(server, this.config.profile, session);
+    }
+
+    return server;
+  }
+
+  /** Enabled tools. They are created once and shared across sessions; each session gets its own McpServer. */
+  getTools(): BaseTool[] {
+    this.tools ??= this.createTools();
+    return this.tools;
+  }
+
+  private createTools(): BaseTool[] {
+    const projectInspector = this.config.projectContext ? new ProjectInspector({ logger: this.logger }) : undefined;
+    // The working directory of a stdio server is whatever the MCP client picked, often / or $HOME,
+    // so apply mode only writes once a workspace root has been set explicitly
+    const componentWriter = this.config.workspaceRoot
+      ? new ComponentWriter({ workspaceRoot: this.config.workspaceRoot, logger: this.logger })
+      : undefined;
+    const tools: BaseTool[] = [
       new CreateUiTool({
         httpClient: this.httpClient,
         browserDetector: this.browserDetector,
         logger: this.logger,
         config: this.config,
+        jobStore: this.jobStore,
+        projectInspector,
+        dependencyResolver: new DependencyResolver({ logger: this.logger }),
+        componentWriter,
       }),
       new FetchUiTool({
         httpClient: this.httpClient,
         logger: this.logger,
+        projectInspector,
+        workspaceRoot: this.config.workspaceRoot,
       }),
       new RefineUiTool({
         httpClient: this.httpClient,
         logger: this.logger,
         config: this.config,
+        projectInspector,
+        componentWriter,
       }),
-      new LogoSearchTool({ logger: this.logger }),
-      new HealthCheckTool({
-        httpClient: this.httpClient,
-        logger: this.logger,
-      }),
+      new LogoSearchTool({ outbound: this.outbound, logger: this.logger, config: this.config }),
       new CanvasUiTool({
         browserDetector: this.browserDetector,
         logger: this.logger,
         config: this.config,
       }),
+      new JobStatusTool({ jobStore: this.jobStore }),
+      new JobResultTool({ jobStore: this.jobStore }),
+      new JobCancelTool({ jobStore: this.jobStore }),
     ];
 
-    for (const tool of tools) {
-      tool.register(server);
+    const disabledTools = tools
+      .map((tool) => ({ name: tool.name, reason: this.getDisabledReason(tool.name) }))
+      .filter((tool): tool is DisabledTool => tool.reason !== null);
+
+    tools.push(
+      new HealthCheckTool({
+        httpClient: this.httpClient,
+        logger: this.logger,
+        disabledTools,
+        profile: this.config.profile,
+      })
+    );
+
+    const knownNames = new Set(tools.map((tool) => tool.name));
+    for (const name of Object.keys(this.config.tools)) {
+      if (!knownNames.has(name)) this.logger.warn(`Unknown tool in config "tools": ${name}`);
+    }
+
+    for (const { name, reason } of disabledTools) {
+      this.logger.info(`Tool ${name} disabled: ${reason}`);
     }
 
-    this.transport = new StdioServerTransport();
-    await server.connect(this.transport);
+    return tools.filter((tool) => this.getDisabledReason(tool.name) === null);
+  }
+
+  private getDisabledReason(name: string): string | null {
+    const setting = this.config.tools[name];
+    if (setting === false) return `disabled in config (tools.${name})`;
+    if (setting === true) return null;
 
-    this.logger.info(`MagicServer v${VERSION} started (PID: ${process.pid})`);
+    if (name === "magic_component_canvas" && !this.config.canvas) {
+      return "canvas tool is off by default; start with --canvas to enable it";
+    }
+    if (JOB_TOOL_NAMES.includes(name) && this.getDisabledReason("magic_component_builder") !== null) {
+      return "magic_component_builder is disabled";
+    }
+    return null;
+  }
+
+  /** Bound port of the HTTP transport, or null when serving over stdio. */
+  getPort(): number | null {
+    return this.httpServer?.getPort() ?? null;
   }
 
   async shutdown(): Promise<void> {
@@ -96,6 +227,17 @@ export class MagicServer {
       this.transport = null;
     }
 
+    if (this.httpServer) {
+      try {
+        await this.httpServer.close();
+      } catch (error) {
+        this.logger.error("Error closing HTTP sessions:", error);
+      }
+      this.httpServer = null;
+    }
+
+    this.jobStore.dispose();
+
     process.exitCode = 0;
   }
 }
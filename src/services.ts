@@ -0,0 +1,66 @@
+import type { Config } from "./config.js";
+import type { Logger } from "./logger.js";
+import { HttpClient } from "./http/client.js";
+import { ApiCache } from "./http/api-cache.js";
+import { CircuitBreaker } from "./http/circuit-breaker.js";
+import { QuotaTracker } from "./http/quota-tracker.js";
+import { Outbound } from "./http/outbound.js";
+import { BrowserDetector } from "./browser/detector.js";
+
+export interface Services {
+  outbound: Outbound;
+  apiCache?: ApiCache;
+  httpClient: HttpClient;
+  browserDetector: BrowserDetector;
+}
+
+/**
+ * Builds the shared clients from config. Used by the MCP server and the CLI
+ * subcommands. Throws ConfigError when the CA bundle cannot be read.
+ */
+export function createServices(config: Config, logger: Logger): Services {
+  // Outbound layer (proxy + CA bundle) shared by every external request
+  const outbound = new Outbound({
+    httpProxy: config.httpProxy,
+    httpsProxy: config.httpsProxy,
+    noProxy: config.noProxy,
+    caFile: config.caFile,
+    logger,
+  });
+
+  // Response cache (disabled with CACHE_TTL=0) and HTTP client with retry config
+  const apiCache =
+    config.cacheTtl > 0
+      ? new ApiCache({
+          ttlMs: config.cacheTtl * 1000,
+          maxEntries: config.cacheMaxEntries,
+          maxBytes: config.cacheMaxBytes,
+          filePath: config.cacheFile,
+          logger,
+        })
+      : undefined;
+
+  const httpClient = new HttpClient({
+    baseUrl: config.apiUrl,
+    apiKey: config.apiKey,
+    timeout: config.timeout,
+    retry: {
+      maxRetries: config.maxRetries,
+      baseDelay: config.retryBaseDelay,
+      maxDelay: config.retryMaxDelay,
+      jitterMax: config.retryJitter,
+      retryAfterBudget: config.retryAfterBudget,
+    },
+    logger,
+    cache: apiCache,
+    circuitBreaker: new CircuitBreaker({
+      failureThreshold: config.breakerThreshold,
+      cooldownMs: config.breakerCooldown,
+      logger,
+    }),
+    quotaTracker: new QuotaTracker({ logger }),
+    outbound,
+  });
+
+  return { outbound, apiCache, httpClient, browserDetector: new BrowserDetector(logger) };
+}
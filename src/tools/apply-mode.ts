@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { diffStats } from "../diff/unified-diff.js";
+import type { ApplyResult } from "../project/component-writer.js";
+
+/** Options shared by the tools' `apply` parameter; each tool adds its own `targetPath`. */
+export const applyOptionsSchema = z.object({
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Return a unified diff of what would be written instead of writing it"),
+  overwrite: z
+    .boolean()
+    .optional()
+    .describe("Confirm replacing an existing file with a dry run's content. Only set this after the user reviewed and agreed to the dry run"),
+  baseHash: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("baseHash from a dry run's result. Pass it back with contentHash to write exactly what the dry run showed"),
+  contentHash: z
+    .string()
+    .optional()
+    .describe(
+      "contentHash from a dry run's result. With it nothing is generated; the reviewed content is written if the file has not changed since"
+    ),
+});
+
+export function formatApplyResult(result: ApplyResult): string {
+  if (result.status === "unchanged") {
+    return `${result.path} already contains this component. Nothing was written.`;
+  }
+
+  const { added, removed } = diffStats(result.diff);
+  if (result.status === "written") {
+    const summary = `${result.created ? "Created" : "Updated"} ${result.path} (+${added} -${removed}).`;
+    return result.diff ? `${summary}\n\n\`\`\`diff\n${result.diff}\`\`\`` : summary;
+  }
+
+  const { baseHash, contentHash } = result;
+  const summary = `Dry run: this would ${result.created ? "create" : "update"} ${result.path} (+${added} -${removed}). Nothing was written.`;
+  const confirm = `To write exactly this, call again with the same arguments and these added to apply: ${JSON.stringify({ overwrite: true, baseHash, contentHash })}.`;
+  return result.diff ? `${summary}\n\n\`\`\`diff\n${result.diff}\`\`\`\n\n${confirm}` : `${summary}\n\n${confirm}`;
+}
@@ -1,9 +1,68 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import { ProgressReporter, type ToolExtra } from "./progress-reporter.js";
+import { HttpError, type HttpErrorKind } from "../http/errors.js";
+import type { HttpClient } from "../http/client.js";
+import { createRequestId, getRequestContext, runWithRequestContext } from "../request-context.js";
+
+export type { ToolExtra } from "./progress-reporter.js";
 
 export interface ToolResponse {
   content: Array<{ type: "text"; text: string }>;
   isError?: boolean;
+  _meta?: Record<string, unknown>;
+}
+
+const HTTP_ERROR_HINTS: Record<HttpErrorKind, { code: string; hint: string }> = {
+  timeout: {
+    code: "TIMEOUT",
+    hint: "The 21st.dev API did not respond in time. Try again, or raise TWENTY_FIRST_TIMEOUT for slow connections.",
+  },
+  network: {
+    code: "NETWORK_ERROR",
+    hint: "Could not reach the 21st.dev API. Check your internet connection, DNS and proxy settings.",
+  },
+  auth: {
+    code: "AUTH_FAILED",
+    hint: "The 21st.dev API rejected the API key. Check API_KEY / TWENTY_FIRST_API_KEY against https://21st.dev/magic/console.",
+  },
+  quota: {
+    code: "QUOTA_EXCEEDED",
+    hint: "The 21st.dev API rate limit or usage quota was reached. Wait a moment before retrying, or check your plan's usage.",
+  },
+  client: {
+    code: "BAD_REQUEST",
+    hint: "The 21st.dev API rejected the request. Check the tool arguments; retrying the same request will not help.",
+  },
+  server: {
+    code: "SERVER_ERROR",
+    hint: "The 21st.dev API returned a server error on every attempt. Try again later.",
+  },
+  invalid_json: {
+    code: "INVALID_JSON",
+    hint: "The 21st.dev API returned a response that is not valid JSON. This is usually a temporary backend or proxy problem.",
+  },
+  invalid_response: {
+    code: "INVALID_RESPONSE",
+    hint: "The 21st.dev API returned a response in an unexpected format. The server may be outdated or the API may have changed; try again later or update the server.",
+  },
+  cancelled: {
+    code: "CANCELLED",
+    hint: "The request was cancelled before it completed.",
+  },
+  circuit_open: {
+    code: "CIRCUIT_OPEN",
+    hint: "The 21st.dev API is failing repeatedly, so requests are paused. Try again shortly.",
+  },
+};
+
+/** What a tool call needs from the MCP session it came in on. */
+export interface ToolSession {
+  /** Level the client set with logging/setLevel */
+  clientLogLevel(): LoggingLevel | undefined;
+  /** Local directories the client shares as roots */
+  clientRoots(): Promise<string[]>;
 }
 
 export abstract class BaseTool<TSchema extends z.ZodObject<z.ZodRawShape> = z.ZodObject<z.ZodRawShape>> {
@@ -11,19 +70,70 @@ export abstract class BaseTool<TSchema extends z.ZodObject<z.ZodRawShape> = z.Zo
   abstract readonly description: string;
   abstract readonly schema: TSchema;
 
-  abstract execute(args: z.infer<TSchema>): Promise<ToolResponse>;
+  abstract execute(args: z.infer<TSchema>, extra?: ToolExtra): Promise<ToolResponse>;
+
+  /**
+   * Executes the tool under a fresh request id, picked up by loggers, HttpClient and formatError.
+   * With a profile, the response's `_meta.profile` tells the client which profile served the call.
+   */
+  async run(args: z.infer<TSchema>, extra?: ToolExtra, profile?: string, session?: ToolSession): Promise<ToolResponse> {
+    const clientLogLevel = session?.clientLogLevel();
+    const context = {
+      requestId: createRequestId(),
+      tool: this.name,
+      ...(profile && { profile }),
+      ...(clientLogLevel && { clientLogLevel }),
+      ...(session && { clientRoots: session.clientRoots }),
+    };
+    const response = await runWithRequestContext(context, () => this.execute(args, extra));
+    return profile ? { ...response, _meta: { ...response._meta, profile } } : response;
+  }
+
+  register(server: McpServer, profile?: string, session?: ToolSession): void {
+    const handler = (args: z.infer<TSchema>, extra?: ToolExtra) => this.run(args, extra, profile, session);
+    server.tool(this.name, this.description, this.schema.shape as any, handler as any);
+  }
+
+  protected createProgress(extra?: ToolExtra): ProgressReporter {
+    return new ProgressReporter(extra);
+  }
 
-  register(server: McpServer): void {
-    server.tool(this.name, this.description, this.schema.shape as any, this.execute.bind(this) as any);
+  /** Appends the HTTP client's quota warning, if any, to a successful response. */
+  protected withQuotaWarning(response: ToolResponse, httpClient: HttpClient): ToolResponse {
+    const warning = httpClient.getQuotaWarning();
+    if (!warning) return response;
+    return { ...response, content: [...response.content, { type: "text", text: `Warning: ${warning}` }] };
   }
 
   protected formatError(message: string, code: string, details?: Record<string, unknown>): ToolResponse {
+    // The request id lets users tie an error to the server's log lines in bug reports
+    const context = getRequestContext();
+    if (context) details = { ...details, requestId: context.requestId, ...(context.profile && { profile: context.profile }) };
     return {
       content: [{ type: "text", text: JSON.stringify({ error: message, code, ...(details && { details }) }, null, 2) }],
       isError: true,
     };
   }
 
+  protected formatApiError(error: unknown, fallbackMessage: string): ToolResponse {
+    if (error instanceof HttpError) {
+      const { code, hint } = HTTP_ERROR_HINTS[error.kind];
+      return this.formatError(hint, this.errorCode(code), {
+        kind: error.kind,
+        endpoint: error.endpoint,
+        ...(error.status > 0 && { status: error.status }),
+        attempts: error.attempts,
+        ...(error.causeMessage && { cause: error.causeMessage }),
+        ...(error.retryAfterMs !== undefined && { retryAfterMs: error.retryAfterMs }),
+        ...(error.issues && { issues: error.issues }),
+        ...(error.excerpt !== undefined && { excerpt: error.excerpt }),
+      });
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return this.formatError(fallbackMessage, this.errorCode("API_ERROR"), { originalError: errorMessage });
+  }
+
   protected errorCode(errorType: string): string {
     return `${this.name.replace(/^magic_/, "").toUpperCase().replace(/-/g, "_")}_${errorType}`;
   }
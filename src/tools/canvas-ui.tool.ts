@@ -1,7 +1,8 @@
 import { z } from "zod";
-import { BaseTool, type ToolResponse } from "./base-tool.js";
+import { BaseTool, type ToolExtra, type ToolResponse } from "./base-tool.js";
 import type { BrowserDetector } from "../browser/detector.js";
 import type { Logger } from "../logger.js";
+import { requestLogger } from "../request-context.js";
 import type { Config } from "../config.js";
 import { CallbackServer } from "../callback/callback-server.js";
 import { CorsHandler } from "../callback/cors.js";
@@ -16,6 +17,8 @@ const canvasUiSchema = z.object({
     ),
 });
 
+const CANVAS_CALLBACK_TIMEOUT_MS = 300_000;
+
 export interface CanvasUiToolDeps {
   browserDetector: BrowserDetector;
   logger: Logger;
@@ -33,18 +36,23 @@ Use when the user mentions /canvas, visual editor, or wants to design components
   readonly schema = canvasUiSchema;
 
   private readonly browserDetector: BrowserDetector;
-  private readonly logger: Logger;
+  private readonly baseLogger: Logger;
   private readonly config: Config;
 
   constructor(deps: CanvasUiToolDeps) {
     super();
     this.browserDetector = deps.browserDetector;
-    this.logger = deps.logger;
+    this.baseLogger = deps.logger;
     this.config = deps.config;
   }
 
-  async execute(args: z.infer<typeof canvasUiSchema>): Promise<ToolResponse> {
+  private get logger(): Logger {
+    return requestLogger(this.baseLogger);
+  }
+
+  async execute(args: z.infer<typeof canvasUiSchema>, extra?: ToolExtra): Promise<ToolResponse> {
     const { message, standaloneRequestQuery } = args;
+    const progress = this.createProgress(extra);
 
     this.logger.info(`Opening canvas editor...`);
 
@@ -52,10 +60,12 @@ Use when the user mentions /canvas, visual editor, or wants to design components
       const server = new CallbackServer({
         maxBodySize: this.config.maxBodySize,
         cors: CorsHandler,
+        allowedOrigins: [new URL(this.config.webUrl).origin],
         rateLimiter: new RateLimiter(),
         logger: this.logger,
       });
       const port = await server.start();
+      await progress.report("Callback server started");
 
       const params = new URLSearchParams({
         q: `Primary request: ${message}\n\nAdditional context: ${standaloneRequestQuery}`,
@@ -63,7 +73,7 @@ Use when the user mentions /canvas, visual editor, or wants to design components
         port: port.toString(),
       });
 
-      const url = `https://21st.dev/canvas/new?${params.toString()}`;
+      const url = `${this.config.webUrl}/canvas/new?${params.toString()}`;
 
       const browserOpened = await this.browserDetector.openUrl(url);
 
@@ -78,7 +88,14 @@ Use when the user mentions /canvas, visual editor, or wants to design components
       }
 
       this.logger.info(`Canvas opened, waiting for callback...`);
-      const result = await server.waitForCallback(300000); // 5 min timeout for canvas
+      await progress.report("Browser opened");
+
+      const stopTracking = progress.track("Waiting for the canvas design", CANVAS_CALLBACK_TIMEOUT_MS);
+      const result = await server.waitForCallback(CANVAS_CALLBACK_TIMEOUT_MS, extra?.signal).finally(stopTracking);
+
+      if (!result.ok && result.reason === "cancelled") {
+        return this.formatError("Canvas session was cancelled.", this.errorCode("CANCELLED"));
+      }
 
       if (!result.ok) {
         return {
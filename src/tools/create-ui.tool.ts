@@ -1,14 +1,22 @@
 import { z } from "zod";
-import { BaseTool, type ToolResponse } from "./base-tool.js";
+import { BaseTool, type ToolExtra, type ToolResponse } from "./base-tool.js";
+import type { ProgressReporter } from "./progress-reporter.js";
+import { applyOptionsSchema, formatApplyResult } from "./apply-mode.js";
 import type { HttpClient } from "../http/client.js";
+import { FetchUiResponseSchema } from "../http/schemas.js";
 import type { BrowserDetector } from "../browser/detector.js";
 import type { Logger } from "../logger.js";
+import { requestLogger } from "../request-context.js";
 import type { Config } from "../config.js";
 import { CallbackServer } from "../callback/callback-server.js";
 import { CorsHandler } from "../callback/cors.js";
 import { RateLimiter } from "../security/rate-limiter.js";
 import { ShellSanitizer } from "../security/shell-sanitizer.js";
-import { PathValidator } from "../security/path-validator.js";
+import type { Job, JobStore } from "../jobs/job-store.js";
+import type { ProjectContext, ProjectInspector } from "../project/project-inspector.js";
+import type { DependencyReport, DependencyResolver } from "../project/dependency-resolver.js";
+import { resolveProjectFile } from "../project/read-roots.js";
+import { APPLY_UNAVAILABLE_MESSAGE, ApplyError, extractCodeBlock, isReviewedApply, type ApplyOptions, type ComponentWriter, type FileSnapshot } from "../project/component-writer.js";
 
 const createUiSchema = z.object({
   message: z.string().describe("Full users message"),
@@ -25,17 +33,50 @@ const createUiSchema = z.object({
     .describe(
       "You need to formulate what component user wants to create, based on his message, possbile chat histroy and a place where he makes the request. Extract additional context about what should be done to create a ui component/page based on the user's message, search query, and conversation history, files. Don't halucinate and be on point."
     ),
+  async: z
+    .boolean()
+    .optional()
+    .describe(
+      "Set to true to return a job id immediately instead of waiting for the component. Poll magic_component_job_status and fetch the component with magic_component_job_result."
+    ),
+  apply: applyOptionsSchema
+    .extend({
+      targetPath: z.string().describe("File to write the component to, absolute or relative to the workspace root"),
+    })
+    .optional()
+    .describe("Opt-in: write the generated component to a file in the workspace instead of only returning it"),
 });
 
-interface CreateUiResponse {
-  text: string;
-}
+const BROWSER_CALLBACK_TIMEOUT_MS = 120_000;
+
+// Used when the current file is not inside a project whose dependencies can be checked
+const GENERIC_SHADCN_INSTRUCTIONS = `## Shadcn/ui instructions
+After you add the component, make sure to add the component to the project. If you can't resolve components from demo code,
+Make sure to install shadcn/ui components from the demo code missing imports
+
+Examples of importing shadcn/ui components:
+if these imports can't be resolved:
+\`\`\`tsx
+import {
+  Table
+} from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+\`\`\`
+
+then run this command:
+\`\`\`bash
+npx shadcn@latest add table textarea
+\`\`\``;
 
 export interface CreateUiToolDeps {
   httpClient: HttpClient;
   browserDetector: BrowserDetector;
   logger: Logger;
   config: Config;
+  jobStore: JobStore;
+  projectInspector?: ProjectInspector;
+  dependencyResolver?: DependencyResolver;
+  componentWriter?: ComponentWriter;
 }
 
 export class CreateUiTool extends BaseTool<typeof createUiSchema> {
@@ -49,34 +90,140 @@ After calling this tool, you must edit or add files to integrate the snippet int
 
   private readonly httpClient: HttpClient;
   private readonly browserDetector: BrowserDetector;
-  private readonly logger: Logger;
+  private readonly baseLogger: Logger;
   private readonly config: Config;
+  private readonly jobStore: JobStore;
+  private readonly projectInspector?: ProjectInspector;
+  private readonly dependencyResolver?: DependencyResolver;
+  private readonly componentWriter?: ComponentWriter;
 
   constructor(deps: CreateUiToolDeps) {
     super();
     this.httpClient = deps.httpClient;
     this.browserDetector = deps.browserDetector;
-    this.logger = deps.logger;
+    this.baseLogger = deps.logger;
     this.config = deps.config;
+    this.jobStore = deps.jobStore;
+    this.projectInspector = deps.projectInspector;
+    this.dependencyResolver = deps.dependencyResolver;
+    this.componentWriter = deps.componentWriter;
+  }
+
+  private get logger(): Logger {
+    return requestLogger(this.baseLogger);
+  }
+
+  async execute(args: z.infer<typeof createUiSchema>, extra?: ToolExtra): Promise<ToolResponse> {
+    if (!args.async) {
+      return this.build(args, this.createProgress(extra), extra?.signal);
+    }
+
+    const job = this.jobStore.create(this.name, extra?.sessionId);
+    this.logger.info(`Started async job ${job.id}`);
+
+    // The originating request has already returned, so the job reports no progress
+    void this.build(args, this.createProgress(), job.controller.signal, job).then(
+      (result) => this.jobStore.finish(job.id, result),
+      (error) =>
+        this.jobStore.finish(
+          job.id,
+          this.formatError("Failed to create component.", this.errorCode("JOB_ERROR"), {
+            originalError: error instanceof Error ? error.message : String(error),
+          })
+        )
+    );
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            ...this.jobStore.snapshot(job),
+            instructions:
+              "The component is being generated. Poll magic_component_job_status with this jobId, then call magic_component_job_result once status is \"completed\".",
+          },
+          null,
+          2
+        ),
+      }],
+    };
+  }
+
+  private async build(
+    args: z.infer<typeof createUiSchema>,
+    progress: ProgressReporter,
+    signal?: AbortSignal,
+    job?: Job
+  ): Promise<ToolResponse> {
+    const { apply } = args;
+    if (!apply) return this.generate(args, progress, signal, job);
+    if (!this.componentWriter) {
+      return this.formatError(APPLY_UNAVAILABLE_MESSAGE, this.errorCode("APPLY_UNAVAILABLE"));
+    }
+
+    try {
+      // Checked before generating, so a refused overwrite costs no API quota
+      const snapshot = await this.componentWriter.snapshot(apply.targetPath);
+      // A reviewed dry run is written as it was shown, not generated again
+      if (isReviewedApply(apply)) {
+        const result = await this.componentWriter.applyReviewed(snapshot, apply);
+        return { content: [{ type: "text" as const, text: formatApplyResult(result) }] };
+      }
+      this.componentWriter.assertWritable(snapshot, apply);
+
+      const response = await this.generate(args, progress, signal, job);
+      if (response.isError) return response;
+      return await this.applyComponent(response, snapshot, apply);
+    } catch (error) {
+      if (!(error instanceof ApplyError)) throw error;
+      return this.formatError(error.message, this.errorCode(error.code), error.details);
+    }
+  }
+
+  private async applyComponent(
+    response: ToolResponse,
+    snapshot: FileSnapshot,
+    options: ApplyOptions
+  ): Promise<ToolResponse> {
+    const code = extractCodeBlock(response.content[0].text);
+    if (code === null) {
+      throw new ApplyError("NO_CODE_BLOCK", "The generated response contains no code block to write. Nothing was written.");
+    }
+
+    const result = await this.componentWriter!.apply(snapshot, code, options);
+    const text = `${formatApplyResult(result)}\n\n${await this.dependencyNotes(code, snapshot.path)}`;
+    return { ...response, content: [{ type: "text" as const, text }] };
   }
 
-  async execute(args: z.infer<typeof createUiSchema>): Promise<ToolResponse> {
+  private async generate(
+    args: z.infer<typeof createUiSchema>,
+    progress: ProgressReporter,
+    signal?: AbortSignal,
+    job?: Job
+  ): Promise<ToolResponse> {
     const { standaloneRequestQuery, absolutePathToCurrentFile, message, searchQuery } = args;
 
     this.logger.info(`Creating UI component...`);
     this.logger.debug(`Query: ${standaloneRequestQuery}`);
 
     // Try browser + callback first
-    const browserResult = await this.tryBrowserCallback(standaloneRequestQuery);
+    const browserResult = await this.tryBrowserCallback(standaloneRequestQuery, progress, signal, job);
+
+    if (signal?.aborted) {
+      this.logger.info(`Component creation cancelled`);
+      return this.formatError("Request was cancelled.", this.errorCode("CANCELLED"), job && { jobId: job.id });
+    }
 
     if (browserResult) {
       // Check if it's a URL for manual opening
       if (browserResult.startsWith("BROWSER_URL:")) {
         const url = browserResult.replace("BROWSER_URL:", "");
         this.logger.warn(`Browser could not be opened automatically`);
+        if (job) this.jobStore.setPhase(job.id, "api_fallback");
+        await progress.report("Browser could not be opened, falling back to API");
 
         // Fall back to API but include the URL in case user wants to browse
-        const apiResult = await this.fallbackToApi(message, searchQuery, absolutePathToCurrentFile);
+        const apiResult = await this.fallbackToApi(message, searchQuery, absolutePathToCurrentFile, progress, signal);
 
         // Prepend URL info to the response
         const urlInfo = `\n\n---\n**Browse components visually:** [Open 21st.dev Magic Chat](${url})\n---\n\n`;
@@ -90,27 +237,37 @@ After calling this tool, you must edit or add files to integrate the snippet int
 
       this.logger.info(`Got result from browser callback`);
       return {
-        content: [{ type: "text" as const, text: this.formatResponse(browserResult) }],
+        content: [{ type: "text" as const, text: await this.formatResponse(browserResult, absolutePathToCurrentFile) }],
       };
     }
 
     // Fallback to direct API
     this.logger.info(`Browser callback failed/timed out, using API fallback`);
-    return this.fallbackToApi(message, searchQuery, absolutePathToCurrentFile);
+    if (job) this.jobStore.setPhase(job.id, "api_fallback");
+    await progress.report("Falling back to API");
+    return this.fallbackToApi(message, searchQuery, absolutePathToCurrentFile, progress, signal);
   }
 
-  private async tryBrowserCallback(query: string): Promise<string | null> {
+  private async tryBrowserCallback(
+    query: string,
+    progress: ProgressReporter,
+    signal?: AbortSignal,
+    job?: Job
+  ): Promise<string | null> {
     try {
       const server = new CallbackServer({
         maxBodySize: this.config.maxBodySize,
         cors: CorsHandler,
+        allowedOrigins: [new URL(this.config.webUrl).origin],
         rateLimiter: new RateLimiter(),
         logger: this.logger,
       });
       const port = await server.start();
       this.logger.debug(`Callback server started on port ${port}`);
+      if (job) this.jobStore.attachCallbackServer(job.id, server);
+      await progress.report("Callback server started");
 
-      const rawUrl = `https://21st.dev/magic-chat?q=${encodeURIComponent(query)}&mcp=true&port=${port}`;
+      const rawUrl = `${this.config.webUrl}/magic-chat?q=${encodeURIComponent(query)}&mcp=true&port=${port}`;
       let url: string;
       try {
         url = ShellSanitizer.sanitizeUrl(rawUrl);
@@ -130,7 +287,11 @@ After calling this tool, you must edit or add files to integrate the snippet int
       }
 
       this.logger.debug(`Browser opened, waiting for callback...`);
-      const result = await server.waitForCallback(120000);
+      if (job) this.jobStore.setPhase(job.id, "waiting_for_browser");
+      await progress.report("Browser opened");
+
+      const stopTracking = progress.track("Waiting for selection in the browser", BROWSER_CALLBACK_TIMEOUT_MS);
+      const result = await server.waitForCallback(BROWSER_CALLBACK_TIMEOUT_MS, signal).finally(stopTracking);
 
       if (!result.ok) {
         this.logger.debug(`Browser callback failed: ${result.reason}`);
@@ -147,67 +308,88 @@ After calling this tool, you must edit or add files to integrate the snippet int
   private async fallbackToApi(
     message: string,
     searchQuery: string,
-    absolutePathToCurrentFile: string
+    absolutePathToCurrentFile: string,
+    progress: ProgressReporter,
+    signal?: AbortSignal
   ): Promise<ToolResponse> {
     try {
       let fileContent = "";
+      let projectContext: ProjectContext | null = null;
       try {
-        const pathValidator = new PathValidator();
-        const validation = await pathValidator.validate(absolutePathToCurrentFile, "/");
-        if (validation.valid && validation.normalizedPath) {
-          const file = Bun.file(validation.normalizedPath);
+        // The current file is only read, and sent along, when it lies in the project
+        const validation = await resolveProjectFile(absolutePathToCurrentFile, this.config.workspaceRoot);
+        if (validation.valid) {
+          const file = Bun.file(validation.file.path);
           const exists = await file.exists();
           if (exists) {
             fileContent = await file.text();
           }
+          projectContext = (await this.projectInspector?.inspect(validation.file.path, validation.file.root)) ?? null;
         }
       } catch {
         // ignore
       }
 
-      const { data, status, ok } = await this.httpClient.post<CreateUiResponse>(
+      const response = await this.httpClient.post(
         "/api/fetch-ui",
-        { message, searchQuery, fileContent }
+        { message, searchQuery, fileContent, ...(projectContext && { projectContext }) },
+        {
+          signal,
+          schema: FetchUiResponseSchema,
+          // The same prompt sent for inspiration at the same time shares this request
+          coalesceOn: { message, searchQuery, projectContext },
+          onChunk: (delta, text) => void progress.partial(delta, text.length),
+        }
       );
 
-      if (!ok || !data?.text) {
-        throw new Error(`API returned status ${status}`);
+      if (!response.ok) {
+        throw response.error;
       }
 
       this.logger.info(`Got result from API fallback`);
-      return {
-        content: [{ type: "text" as const, text: this.formatResponse(data.text) }],
-      };
+      return this.withQuotaWarning(
+        { content: [{ type: "text" as const, text: await this.formatResponse(response.data.text, absolutePathToCurrentFile) }] },
+        this.httpClient
+      );
     } catch (error) {
       this.logger.error(`API fallback error:`, error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return this.formatError(
-        "Failed to create component. Please try again or check your API key.",
-        this.errorCode("API_ERROR"),
-        { originalError: errorMessage }
+      return this.formatApiError(
+        error,
+        "Failed to create component. Please try again or check your API key."
       );
     }
   }
 
-  private formatResponse(prompt: string): string {
-    return `${prompt}
+  private async formatResponse(prompt: string, absolutePathToCurrentFile: string): Promise<string> {
+    return `${prompt}\n\n${await this.dependencyNotes(prompt, absolutePathToCurrentFile)}`;
+  }
 
-## Shadcn/ui instructions
-After you add the component, make sure to add the component to the project. If you can't resolve components from demo code,
-Make sure to install shadcn/ui components from the demo code missing imports
+  private async dependencyNotes(code: string, filePath: string): Promise<string> {
+    const report = await this.resolveDependencies(code, filePath);
+    return report ? this.formatDependencies(report) : GENERIC_SHADCN_INSTRUCTIONS;
+  }
 
-Examples of importing shadcn/ui components:
-if these imports can't be resolved:
-\`\`\`tsx
-import {
-  Table
-} from "@/components/ui/table"
-import { Textarea } from "@/components/ui/textarea"
-\`\`\`
+  private async resolveDependencies(code: string, filePath: string): Promise<DependencyReport | null> {
+    if (!this.dependencyResolver) return null;
+    try {
+      const validation = await resolveProjectFile(filePath, this.config.workspaceRoot);
+      if (!validation.valid) return null;
+      return await this.dependencyResolver.resolve(code, validation.file.path, validation.file.root);
+    } catch (error) {
+      this.logger.debug(`Could not check the component's dependencies: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
 
-then run this command:
-\`\`\`bash
-npx shadcn@latest add table textarea
-\`\`\``;
+  private formatDependencies({ packageManager, missingComponents, missingPackages, commands }: DependencyReport): string {
+    if (commands.length === 0) {
+      return "## Dependencies\nAll shadcn/ui components and npm packages this component imports are already in the project.";
+    }
+
+    const lines = ["## Dependencies", `Missing in this project (package manager: ${packageManager}):`];
+    if (missingComponents.length > 0) lines.push(`- shadcn/ui components: ${missingComponents.join(", ")}`);
+    if (missingPackages.length > 0) lines.push(`- npm packages: ${missingPackages.join(", ")}`);
+    lines.push("", "Install them before adding the component:", "```bash", ...commands, "```");
+    return lines.join("\n");
   }
 }
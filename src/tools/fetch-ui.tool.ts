@@ -1,7 +1,11 @@
 import { z } from "zod";
-import { BaseTool, type ToolResponse } from "./base-tool.js";
+import { BaseTool, type ToolExtra, type ToolResponse } from "./base-tool.js";
 import type { HttpClient } from "../http/client.js";
+import { FetchUiResponseSchema } from "../http/schemas.js";
 import type { Logger } from "../logger.js";
+import { requestLogger } from "../request-context.js";
+import type { ProjectContext, ProjectInspector } from "../project/project-inspector.js";
+import { resolveProjectFile } from "../project/read-roots.js";
 
 const fetchUiSchema = z.object({
   message: z.string().describe("Full users message"),
@@ -10,15 +14,18 @@ const fetchUiSchema = z.object({
     .describe(
       "Search query for 21st.dev (library for searching UI components) to find a UI component that matches the user's message. Must be a two-four words max or phrase"
     ),
+  absolutePathToCurrentFile: z
+    .string()
+    .optional()
+    .describe("Absolute path to the file the user is working in, used to match the project's framework and styling setup"),
 });
 
-interface FetchUiResponse {
-  text: string;
-}
-
 export interface FetchUiToolDeps {
   httpClient: HttpClient;
   logger: Logger;
+  projectInspector?: ProjectInspector;
+  /** Only files under this directory are inspected; without it, those under the client's roots or the server's project */
+  workspaceRoot?: string;
 }
 
 export class FetchUiTool extends BaseTool<typeof fetchUiSchema> {
@@ -30,48 +37,69 @@ After calling this tool, you must edit or add files to integrate the snippet int
   readonly schema = fetchUiSchema;
 
   private readonly httpClient: HttpClient;
-  private readonly logger: Logger;
+  private readonly baseLogger: Logger;
+  private readonly projectInspector?: ProjectInspector;
+  private readonly workspaceRoot?: string;
 
   constructor(deps: FetchUiToolDeps) {
     super();
     this.httpClient = deps.httpClient;
-    this.logger = deps.logger;
+    this.baseLogger = deps.logger;
+    this.projectInspector = deps.projectInspector;
+    this.workspaceRoot = deps.workspaceRoot;
+  }
+
+  private get logger(): Logger {
+    return requestLogger(this.baseLogger);
   }
 
-  async execute(args: z.infer<typeof fetchUiSchema>): Promise<ToolResponse> {
-    const { message, searchQuery } = args;
+  async execute(args: z.infer<typeof fetchUiSchema>, extra?: ToolExtra): Promise<ToolResponse> {
+    const { message, searchQuery, absolutePathToCurrentFile } = args;
 
     try {
       this.logger.info(`Fetching UI inspiration...`);
       this.logger.debug(`Search: ${searchQuery}`);
 
-      const { data, status, ok } = await this.httpClient.post<FetchUiResponse>(
+      const projectContext = absolutePathToCurrentFile ? await this.inspectProject(absolutePathToCurrentFile) : null;
+
+      const response = await this.httpClient.post(
         "/api/fetch-ui",
-        { message, searchQuery }
+        { message, searchQuery, ...(projectContext && { projectContext }) },
+        { signal: extra?.signal, schema: FetchUiResponseSchema, coalesceOn: { message, searchQuery, projectContext } }
       );
 
-      if (!ok) {
-        throw new Error(`API returned status ${status}`);
+      if (!response.ok) {
+        throw response.error;
       }
+      const { data } = response;
 
       this.logger.info(`Successfully fetched inspiration`);
 
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: data.text,
-          },
-        ],
-      };
+      return this.withQuotaWarning(
+        {
+          content: [
+            {
+              type: "text" as const,
+              text: data.text,
+            },
+          ],
+        },
+        this.httpClient
+      );
     } catch (error) {
       this.logger.error(`Error executing tool:`, error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return this.formatError(
-        "Failed to fetch UI inspiration. Please try again or check your API key.",
-        this.errorCode("API_ERROR"),
-        { originalError: errorMessage }
+      return this.formatApiError(
+        error,
+        "Failed to fetch UI inspiration. Please try again or check your API key."
       );
     }
   }
+
+  // Context is a nice-to-have here, so an invalid path just means none is sent
+  private async inspectProject(filePath: string): Promise<ProjectContext | null> {
+    if (!this.projectInspector) return null;
+    const validation = await resolveProjectFile(filePath, this.workspaceRoot);
+    if (!validation.valid) return null;
+    return this.projectInspector.inspect(validation.file.path, validation.file.root);
+  }
 }
@@ -1,7 +1,12 @@
 import { z } from "zod";
-import { BaseTool, type ToolResponse } from "./base-tool.js";
+import { BaseTool, type ToolExtra, type ToolResponse } from "./base-tool.js";
 import type { HttpClient } from "../http/client.js";
+import type { CacheStats } from "../http/api-cache.js";
+import type { CircuitBreakerSnapshot } from "../http/circuit-breaker.js";
+import type { QuotaSnapshot } from "../http/quota-tracker.js";
+import { HealthResponseSchema } from "../http/schemas.js";
 import type { Logger } from "../logger.js";
+import { requestLogger } from "../request-context.js";
 
 const healthCheckSchema = z.object({});
 
@@ -10,34 +15,56 @@ interface HealthStatus {
   checks: {
     api_reachable: boolean;
     api_latency_ms?: number;
+    api_response_valid?: boolean;
     uptime_seconds: number;
   };
+  cache: CacheStats | null;
+  circuit_breaker: CircuitBreakerSnapshot | null;
+  quota: QuotaSnapshot | null;
+  disabled_tools: DisabledTool[];
+  profile: string | null;
   timestamp: string;
 }
 
+export interface DisabledTool {
+  name: string;
+  reason: string;
+}
+
 export interface HealthCheckToolDeps {
   httpClient: HttpClient;
   logger: Logger;
+  disabledTools?: DisabledTool[];
+  /** Name of the active config profile; the key itself is never reported */
+  profile?: string;
 }
 
 export class HealthCheckTool extends BaseTool<typeof healthCheckSchema> {
   readonly name = "magic_health_check";
-  readonly description = "Check the health status of the Magic MCP server, including API connectivity, cache statistics, and uptime";
+  readonly description = "Check the health status of the Magic MCP server, including API connectivity, cache statistics, remaining API quota, and uptime";
   readonly schema = healthCheckSchema;
 
   private readonly httpClient: HttpClient;
-  private readonly logger: Logger;
+  private readonly baseLogger: Logger;
+  private readonly disabledTools: DisabledTool[];
+  private readonly profile: string | null;
   private readonly startTime = Date.now();
 
   constructor(deps: HealthCheckToolDeps) {
     super();
     this.httpClient = deps.httpClient;
-    this.logger = deps.logger;
+    this.baseLogger = deps.logger;
+    this.disabledTools = deps.disabledTools ?? [];
+    this.profile = deps.profile ?? null;
+  }
+
+  private get logger(): Logger {
+    return requestLogger(this.baseLogger);
   }
 
-  async execute(_args: z.infer<typeof healthCheckSchema>): Promise<ToolResponse> {
+  async execute(_args: z.infer<typeof healthCheckSchema>, extra?: ToolExtra): Promise<ToolResponse> {
     try {
-      const healthStatus = await this.checkHealth();
+      const healthStatus = await this.checkHealth(extra?.signal);
 
       return {
         content: [
@@ -56,15 +83,20 @@ export class HealthCheckTool extends BaseTool<typeof healthCheckSchema> {
     }
   }
 
-  private async checkHealth(): Promise<HealthStatus> {
-    const apiCheck = await this.checkApiConnectivity();
+  private async checkHealth(signal?: AbortSignal): Promise<HealthStatus> {
+    const apiCheck = await this.checkApiConnectivity(signal);
     const uptimeSeconds = Math.floor((Date.now() - this.startTime) / 1000);
+    const quota = this.httpClient.getQuotaState();
 
     let status: HealthStatus["status"];
     if (!apiCheck.reachable) {
       status = "unhealthy";
     } else if (apiCheck.latency !== undefined && apiCheck.latency > 2000) {
       status = "degraded";
+    } else if (apiCheck.valid === false) {
+      status = "degraded";
+    } else if (quota?.remaining === 0) {
+      status = "degraded";
     } else {
       status = "healthy";
     }
@@ -74,23 +106,34 @@ export class HealthCheckTool extends BaseTool<typeof healthCheckSchema> {
       checks: {
         api_reachable: apiCheck.reachable,
         ...(apiCheck.latency !== undefined && { api_latency_ms: apiCheck.latency }),
+        ...(apiCheck.valid !== undefined && { api_response_valid: apiCheck.valid }),
         uptime_seconds: uptimeSeconds,
       },
+      cache: this.httpClient.getCacheStats(),
+      circuit_breaker: this.httpClient.getCircuitBreakerState(),
+      quota,
+      disabled_tools: this.disabledTools,
+      profile: this.profile,
       timestamp: new Date().toISOString(),
     };
   }
 
-  private async checkApiConnectivity(): Promise<{ reachable: boolean; latency?: number }> {
+  private async checkApiConnectivity(
+    signal?: AbortSignal
+  ): Promise<{ reachable: boolean; latency?: number; valid?: boolean }> {
     try {
       const startTime = Date.now();
 
-      const { ok, status } = await this.httpClient.get<unknown>("/health");
+      const response = await this.httpClient.get("/health", { signal, cache: false, schema: HealthResponseSchema });
 
       const latency = Date.now() - startTime;
+      const { ok, status } = response;
+      const malformed = !ok && (response.error.kind === "invalid_json" || response.error.kind === "invalid_response");
 
       return {
         reachable: ok || (status > 0 && status < 500),
         latency,
+        ...(ok || malformed ? { valid: ok } : {}),
       };
     } catch {
       return {
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { BaseTool, type ToolExtra, type ToolResponse } from "./base-tool.js";
+import type { JobStore } from "../jobs/job-store.js";
+
+const jobCancelSchema = z.object({
+  jobId: z.string().describe("Job id returned by magic_component_builder when called with async: true"),
+});
+
+export interface JobCancelToolDeps {
+  jobStore: JobStore;
+}
+
+export class JobCancelTool extends BaseTool<typeof jobCancelSchema> {
+  readonly name = "magic_component_job_cancel";
+  readonly description = `
+Cancel a running async magic_component_builder job.
+Stops waiting for the browser callback, frees its port and discards any pending API fallback result.
+`;
+  readonly schema = jobCancelSchema;
+
+  private readonly jobStore: JobStore;
+
+  constructor(deps: JobCancelToolDeps) {
+    super();
+    this.jobStore = deps.jobStore;
+  }
+
+  async execute(args: z.infer<typeof jobCancelSchema>, extra?: ToolExtra): Promise<ToolResponse> {
+    const job = this.jobStore.get(args.jobId, extra?.sessionId);
+    if (!job) {
+      return this.formatError(
+        "Job not found. It may have expired or never existed.",
+        this.errorCode("NOT_FOUND"),
+        { jobId: args.jobId }
+      );
+    }
+
+    if (!this.jobStore.cancel(job.id, extra?.sessionId)) {
+      return this.formatError(
+        `Job has already finished with status "${job.status}".`,
+        this.errorCode("NOT_RUNNING"),
+        { ...this.jobStore.snapshot(job) }
+      );
+    }
+
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(this.jobStore.snapshot(job), null, 2) }],
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { BaseTool, type ToolExtra, type ToolResponse } from "./base-tool.js";
+import type { JobStore } from "../jobs/job-store.js";
+
+const jobResultSchema = z.object({
+  jobId: z.string().describe("Job id returned by magic_component_builder when called with async: true"),
+});
+
+export interface JobResultToolDeps {
+  jobStore: JobStore;
+}
+
+export class JobResultTool extends BaseTool<typeof jobResultSchema> {
+  readonly name = "magic_component_job_result";
+  readonly description = `
+Fetch the result of a finished async magic_component_builder job.
+Returns the same output magic_component_builder would have returned synchronously.
+If the job is still running, returns an error telling you to poll magic_component_job_status again later.
+`;
+  readonly schema = jobResultSchema;
+
+  private readonly jobStore: JobStore;
+
+  constructor(deps: JobResultToolDeps) {
+    super();
+    this.jobStore = deps.jobStore;
+  }
+
+  async execute(args: z.infer<typeof jobResultSchema>, extra?: ToolExtra): Promise<ToolResponse> {
+    const job = this.jobStore.get(args.jobId, extra?.sessionId);
+    if (!job) {
+      return this.formatError(
+        "Job not found. It may have expired or never existed.",
+        this.errorCode("NOT_FOUND"),
+        { jobId: args.jobId }
+      );
+    }
+
+    if (job.status === "cancelled") {
+      return this.formatError("Job was cancelled.", this.errorCode("CANCELLED"), { jobId: job.id });
+    }
+
+    if (!job.result) {
+      return this.formatError(
+        "Job is still running. Poll magic_component_job_status and try again once it has completed.",
+        this.errorCode("NOT_READY"),
+        { ...this.jobStore.snapshot(job) }
+      );
+    }
+
+    return job.result;
+  }
+}
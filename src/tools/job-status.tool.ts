@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { BaseTool, type ToolExtra, type ToolResponse } from "./base-tool.js";
+import type { JobStore } from "../jobs/job-store.js";
+
+const jobStatusSchema = z.object({
+  jobId: z.string().describe("Job id returned by magic_component_builder when called with async: true"),
+});
+
+export interface JobStatusToolDeps {
+  jobStore: JobStore;
+}
+
+export class JobStatusTool extends BaseTool<typeof jobStatusSchema> {
+  readonly name = "magic_component_job_status";
+  readonly description = `
+Check the status of an async magic_component_builder job.
+Returns the job status (running, completed, failed, cancelled) and its current phase.
+Once the status is "completed" or "failed", call magic_component_job_result to get the output.
+`;
+  readonly schema = jobStatusSchema;
+
+  private readonly jobStore: JobStore;
+
+  constructor(deps: JobStatusToolDeps) {
+    super();
+    this.jobStore = deps.jobStore;
+  }
+
+  async execute(args: z.infer<typeof jobStatusSchema>, extra?: ToolExtra): Promise<ToolResponse> {
+    const job = this.jobStore.get(args.jobId, extra?.sessionId);
+    if (!job) {
+      return this.formatError(
+        "Job not found. It may have expired or never existed.",
+        this.errorCode("NOT_FOUND"),
+        { jobId: args.jobId }
+      );
+    }
+
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(this.jobStore.snapshot(job), null, 2) }],
+    };
+  }
+}
@@ -1,6 +1,9 @@
 import { z } from "zod";
-import { BaseTool, type ToolResponse } from "./base-tool.js";
+import { BaseTool, type ToolExtra, type ToolResponse } from "./base-tool.js";
+import type { Config } from "../config.js";
 import type { Logger } from "../logger.js";
+import { requestLogger } from "../request-context.js";
+import type { Outbound } from "../http/outbound.js";
 import { sanitizeSvg } from "../http/svg-sanitizer.js";
 
 const CONCURRENCY_LIMIT = 5;
@@ -50,7 +53,9 @@ async function pool<T, R>(items: T[], fn: (item: T) => Promise<R>, limit: number
 }
 
 export interface LogoSearchToolDeps {
+  outbound: Outbound;
   logger: Logger;
+  config: Config;
 }
 
 export class LogoSearchTool extends BaseTool<typeof logoSearchSchema> {
@@ -71,27 +76,37 @@ Format options:
 `;
   readonly schema = logoSearchSchema;
 
-  private readonly logger: Logger;
+  private readonly outbound: Outbound;
+  private readonly baseLogger: Logger;
+  private readonly config: Config;
 
   constructor(deps: LogoSearchToolDeps) {
     super();
-    this.logger = deps.logger;
+    this.outbound = deps.outbound;
+    this.baseLogger = deps.logger;
+    this.config = deps.config;
   }
 
-  private async fetchWithTimeout(url: string): Promise<Response> {
+  private get logger(): Logger {
+    return requestLogger(this.baseLogger);
+  }
+
+  private async fetchWithTimeout(url: string, signal?: AbortSignal): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 30000);
     try {
-      return await fetch(url, { signal: controller.signal });
+      return await this.outbound.fetch(url, {
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+      });
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
-  private async fetchLogos(query: string): Promise<SVGLogo[]> {
-    const url = `https://api.svgl.app?search=${encodeURIComponent(query)}`;
+  private async fetchLogos(query: string, signal?: AbortSignal): Promise<SVGLogo[]> {
+    const url = `${this.config.svglUrl}?search=${encodeURIComponent(query)}`;
     try {
-      const response = await this.fetchWithTimeout(url);
+      const response = await this.fetchWithTimeout(url, signal);
       if (!response.ok) return [];
       const data = await response.json();
       return Array.isArray(data) ? data : [];
@@ -101,8 +116,8 @@ Format options:
     }
   }
 
-  private async fetchSVGContent(url: string): Promise<string> {
-    const response = await this.fetchWithTimeout(url);
+  private async fetchSVGContent(url: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.fetchWithTimeout(url, signal);
     if (!response.ok) throw new Error(`Failed to fetch SVG: ${response.statusText}`);
     const rawSvg = await response.text();
     return sanitizeSvg(rawSvg);
@@ -117,27 +132,43 @@ Format options:
       : `function ${componentName}() { return (${jsx}) }`;
   }
 
-  private async processLogoQuery(query: string, format: "JSX" | "TSX" | "SVG"): Promise<LogoResult> {
-    const logos = await this.fetchLogos(query);
+  private async processLogoQuery(
+    query: string,
+    format: "JSX" | "TSX" | "SVG",
+    signal?: AbortSignal
+  ): Promise<LogoResult> {
+    if (signal?.aborted) {
+      return { query, success: false, error: "Cancelled" };
+    }
+    const logos = await this.fetchLogos(query, signal);
     if (logos.length === 0) {
       return { query, success: false, error: `No logo found for: ${query}` };
     }
     const logo = logos[0];
     const svgUrl = typeof logo.route === "string" ? logo.route : logo.route.light;
-    const svg = await this.fetchSVGContent(svgUrl);
+    const svg = await this.fetchSVGContent(svgUrl, signal);
     const code = this.convertToFormat(svg, format, logo.title + "Icon");
     return { query, success: true, content: `// ${logo.title}\n${code}` };
   }
 
-  async execute(args: z.infer<typeof logoSearchSchema>): Promise<ToolResponse> {
+  async execute(args: z.infer<typeof logoSearchSchema>, extra?: ToolExtra): Promise<ToolResponse> {
     const { queries, format } = args;
+    const progress = this.createProgress(extra);
+    let completed = 0;
 
     try {
       this.logger.info(`Searching: ${queries.join(", ")} (concurrency limit: ${CONCURRENCY_LIMIT})`);
 
       const settledResults = await pool(
         queries,
-        (query) => this.processLogoQuery(query, format),
+        async (query) => {
+          try {
+            return await this.processLogoQuery(query, format, extra?.signal);
+          } finally {
+            completed++;
+            await progress.report(`Processed logo "${query}"`, { progress: completed, total: queries.length });
+          }
+        },
         CONCURRENCY_LIMIT
       );
 
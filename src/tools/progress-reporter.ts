@@ -0,0 +1,101 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { LoggingLevelSchema, type ServerNotification, type ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { getRequestContext } from "../request-context.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export const PROGRESS_INTERVAL_MS = 5_000;
+
+export interface ProgressUpdate {
+  progress?: number;
+  total?: number;
+}
+
+/**
+ * Sends `notifications/progress` for a tool call. A no-op when the client
+ * did not pass a progress token, so tools can report unconditionally.
+ */
+export class ProgressReporter {
+  private readonly extra?: ToolExtra;
+  private current = 0;
+
+  constructor(extra?: ToolExtra) {
+    this.extra = extra;
+  }
+
+  get enabled(): boolean {
+    return this.extra?._meta?.progressToken !== undefined;
+  }
+
+  async report(message: string, update: ProgressUpdate = {}): Promise<void> {
+    const progressToken = this.extra?._meta?.progressToken;
+    if (progressToken === undefined || !this.extra) return;
+
+    // Progress must increase with every notification
+    this.current = Math.max(this.current + 1, update.progress ?? 0);
+
+    try {
+      await this.extra.sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: this.current,
+          ...(update.total !== undefined && { total: Math.max(update.total, this.current) }),
+          message,
+        },
+      });
+    } catch {
+      // The client may have gone away; progress is best-effort
+    }
+  }
+
+  /**
+   * Forwards a piece of streamed API output: the text itself as a
+   * `notifications/message` log entry, plus a progress update with the running size.
+   * Only for calls with a progress token, and the text only if the client's
+   * logging/setLevel lets info messages through.
+   */
+  async partial(delta: string, receivedChars: number): Promise<void> {
+    if (!this.enabled || !this.extra) return;
+
+    const clientLevel = getRequestContext()?.clientLogLevel;
+    const levels = LoggingLevelSchema.options;
+    if (!clientLevel || levels.indexOf("info") >= levels.indexOf(clientLevel)) {
+      try {
+        await this.extra.sendNotification({
+          method: "notifications/message",
+          params: { level: "info", logger: "magic", data: delta },
+        });
+      } catch {
+        // Best-effort, like progress
+      }
+    }
+    await this.report(`Received ${receivedChars} characters`);
+  }
+
+  /**
+   * Reports `phase` immediately and then every `intervalMs` with elapsed and
+   * remaining time until `durationMs`. Returns a function that stops it.
+   */
+  track(phase: string, durationMs: number, intervalMs = PROGRESS_INTERVAL_MS): () => void {
+    if (!this.enabled) return () => {};
+
+    const startedAt = Date.now();
+    void this.report(phase);
+
+    const interval = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      const remaining = Math.max(0, durationMs - elapsed);
+      void this.report(`${phase} (${formatSeconds(elapsed)} elapsed, ${formatSeconds(remaining)} remaining)`);
+    }, intervalMs);
+    if (interval.unref) {
+      interval.unref();
+    }
+
+    return () => clearInterval(interval);
+  }
+}
+
+function formatSeconds(ms: number): string {
+  return `${Math.round(ms / 1000)}s`;
+}
@@ -1,9 +1,18 @@
+import * as path from "node:path";
 import { z } from "zod";
-import { BaseTool, type ToolResponse } from "./base-tool.js";
+import { BaseTool, type ToolExtra, type ToolResponse } from "./base-tool.js";
+import { applyOptionsSchema, formatApplyResult } from "./apply-mode.js";
 import type { HttpClient } from "../http/client.js";
+import { RefineUiResponseSchema } from "../http/schemas.js";
 import type { Logger } from "../logger.js";
+import { requestLogger } from "../request-context.js";
 import type { Config } from "../config.js";
-import { PathValidator } from "../security/path-validator.js";
+import type { ProjectInspector } from "../project/project-inspector.js";
+import { resolveProjectFile, type ProjectFile } from "../project/read-roots.js";
+import { createUnifiedDiff, diffStats } from "../diff/unified-diff.js";
+import { formatChangeSummary, summarizeChanges } from "../diff/change-summary.js";
+import { ScopeError, resolveScope, scopedSource, spliceScope, type SourceScope } from "../project/source-scope.js";
+import { APPLY_UNAVAILABLE_MESSAGE, ApplyError, extractCodeBlock, isReviewedApply, type ApplyOptions, type ComponentWriter, type FileSnapshot } from "../project/component-writer.js";
 
 const refineUiSchema = z.object({
   userMessage: z.string().describe("Full user's message about UI refinement"),
@@ -15,16 +24,41 @@ const refineUiSchema = z.object({
     .describe(
       "Extract the specific UI elements and aspects that need improvement based on user messages, code, and conversation history. Identify exactly which components (buttons, forms, modals, etc.) the user is referring to and what aspects (styling, layout, responsiveness, etc.) they want to enhance. Do not include generic improvements - focus only on what the user explicitly mentions or what can be reasonably inferred from the available context. If nothing specific is mentioned or you cannot determine what needs improvement, return an empty string."
     ),
+  scope: z
+    .object({
+      symbol: z.string().optional().describe("Name of the top-level component to refine, e.g. PricingCard"),
+      startLine: z.number().int().positive().optional().describe("First line to refine, 1-based"),
+      endLine: z.number().int().positive().optional().describe("Last line to refine, inclusive"),
+    })
+    .optional()
+    .describe(
+      "Refine only part of a large file: give symbol, or startLine and endLine. Only that code and the file's imports are sent, and the result is spliced back into the file"
+    ),
+  output: z
+    .enum(["full", "diff"])
+    .optional()
+    .describe(
+      'Use "diff" to get a unified diff against the current file plus a summary of prop, import and className changes instead of the whole component. Ignored with apply'
+    ),
+  apply: applyOptionsSchema
+    .extend({
+      targetPath: z
+        .string()
+        .optional()
+        .describe("File to write the refined component to; defaults to absolutePathToRefiningFile"),
+    })
+    .optional()
+    .describe(
+      "Opt-in: write the refined component to disk instead of only returning it. Replacing a file needs a dry run first, then overwrite: true with the dry run's hashes"
+    ),
 });
 
-interface RefineUiResponse {
-  text: string;
-}
-
 export interface RefineUiToolDeps {
   httpClient: HttpClient;
   logger: Logger;
   config: Config;
+  projectInspector?: ProjectInspector;
+  componentWriter?: ComponentWriter;
 }
 
 export class RefineUiTool extends BaseTool<typeof refineUiSchema> {
@@ -37,18 +71,27 @@ This tool improves UI of components and returns redesigned version of the compon
   readonly schema = refineUiSchema;
 
   private readonly httpClient: HttpClient;
-  private readonly logger: Logger;
+  private readonly baseLogger: Logger;
   private readonly config: Config;
+  private readonly projectInspector?: ProjectInspector;
+  private readonly componentWriter?: ComponentWriter;
 
   constructor(deps: RefineUiToolDeps) {
     super();
     this.httpClient = deps.httpClient;
-    this.logger = deps.logger;
+    this.baseLogger = deps.logger;
     this.config = deps.config;
+    this.projectInspector = deps.projectInspector;
+    this.componentWriter = deps.componentWriter;
+  }
+
+  private get logger(): Logger {
+    return requestLogger(this.baseLogger);
   }
 
-  async execute(args: z.infer<typeof refineUiSchema>): Promise<ToolResponse> {
-    const { userMessage, absolutePathToRefiningFile, context } = args;
+  async execute(args: z.infer<typeof refineUiSchema>, extra?: ToolExtra): Promise<ToolResponse> {
+    const { userMessage, absolutePathToRefiningFile, context, scope: scopeOptions, apply, output } = args;
+    const progress = this.createProgress(extra);
 
     try {
       this.logger.info(`Refining UI component...`);
@@ -56,20 +99,35 @@ This tool improves UI of components and returns redesigned version of the compon
 
       // Read file content with path validation and size check
       let fileContent: string;
-      const pathValidator = new PathValidator();
-      const validation = await pathValidator.validate(absolutePathToRefiningFile, "/");
-      if (!validation.valid || !validation.normalizedPath) {
+      const validation = await resolveProjectFile(absolutePathToRefiningFile, this.config.workspaceRoot);
+      if (!validation.valid) {
         throw new Error(`Invalid file path: ${validation.error}`);
       }
+      const { file: projectFile } = validation;
+
+      // Checked before calling the API, so a refused overwrite costs no quota
+      let snapshot: FileSnapshot | undefined;
+      if (apply) {
+        if (!this.componentWriter) {
+          return this.formatError(APPLY_UNAVAILABLE_MESSAGE, this.errorCode("APPLY_UNAVAILABLE"));
+        }
+        snapshot = await this.componentWriter.snapshot(apply.targetPath ?? projectFile.path);
+        // A reviewed dry run is written as it was shown, not refined again
+        if (isReviewedApply(apply)) {
+          const result = await this.componentWriter.applyReviewed(snapshot, apply);
+          return { content: [{ type: "text" as const, text: formatApplyResult(result) }] };
+        }
+        this.componentWriter.assertWritable(snapshot, apply);
+      }
 
-      const file = Bun.file(validation.normalizedPath);
+      const file = Bun.file(projectFile.path);
       const exists = await file.exists();
       if (!exists) {
         throw new Error(`File not found: ${absolutePathToRefiningFile}`);
       }
 
       const fileSize = file.size;
-      if (fileSize > this.config.maxFileSize) {
+      if (!scopeOptions && fileSize > this.config.maxFileSize) {
         throw new Error(
           `File size (${fileSize} bytes) exceeds maximum allowed size (${this.config.maxFileSize} bytes)`
         );
@@ -77,33 +135,122 @@ This tool improves UI of components and returns redesigned version of the compon
 
       fileContent = await file.text();
 
-      const { data, status, ok } = await this.httpClient.post<RefineUiResponse>(
+      // With a scope only the selected code and the imports are sent, so that is what the size limit applies to
+      let scope: SourceScope | undefined;
+      let refiningContent = fileContent;
+      if (scopeOptions) {
+        scope = resolveScope(fileContent, scopeOptions);
+        refiningContent = scopedSource(scope);
+        this.logger.debug(`Refining ${scope.label}`);
+        const scopedSize = Buffer.byteLength(refiningContent);
+        if (scopedSize > this.config.maxFileSize) {
+          throw new Error(
+            `Selected code (${scopedSize} bytes) exceeds maximum allowed size (${this.config.maxFileSize} bytes)`
+          );
+        }
+      }
+
+      const projectContext = await this.projectInspector?.inspect(projectFile.path, projectFile.root);
+      await progress.report(`Read ${Buffer.byteLength(refiningContent)} bytes, sending to refine API`, {
+        progress: 1,
+        total: 2,
+      });
+
+      const response = await this.httpClient.post(
         "/api/refine-ui",
-        { userMessage, fileContent, context }
+        { userMessage, fileContent: refiningContent, context, ...(projectContext && { projectContext }) },
+        // Re-running a refinement should produce a fresh design, not a cached one
+        {
+          signal: extra?.signal,
+          cache: false,
+          schema: RefineUiResponseSchema,
+          onChunk: (delta, text) => void progress.partial(delta, text.length),
+        }
       );
 
-      if (!ok) {
-        throw new Error(`API returned status ${status}`);
+      if (!response.ok) {
+        throw response.error;
       }
+      const { data } = response;
 
       this.logger.info(`Successfully refined component`);
+      await progress.report("Refined component received", { progress: 2, total: 2 });
 
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: data.text,
-          },
-        ],
-      };
+      const refined = extractCodeBlock(data.text);
+      const code = refined !== null && scope ? spliceScope(fileContent, scope, refined) : refined;
+
+      if (snapshot && apply) {
+        return this.withQuotaWarning(await this.applyRefinement(code, snapshot, apply), this.httpClient);
+      }
+      if (output === "diff") {
+        return this.withQuotaWarning(
+          this.formatDiff(data.text, code, fileContent, projectFile),
+          this.httpClient
+        );
+      }
+
+      return this.withQuotaWarning(
+        {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                scope && refined !== null && code !== null
+                  ? `Refined ${scope.label}, shown in place in the full file:\n\n${data.text.replace(refined, () => code)}`
+                  : data.text,
+            },
+          ],
+        },
+        this.httpClient
+      );
     } catch (error) {
+      if (error instanceof ApplyError || error instanceof ScopeError) {
+        return this.formatError(error.message, this.errorCode(error.code), error.details);
+      }
       this.logger.error(`Error executing tool:`, error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return this.formatError(
-        "Failed to refine UI component. Please try again or check your API key.",
-        this.errorCode("API_ERROR"),
-        { originalError: errorMessage }
+      return this.formatApiError(
+        error,
+        "Failed to refine UI component. Please try again or check your API key."
       );
     }
   }
+
+  private async applyRefinement(
+    code: string | null,
+    snapshot: FileSnapshot,
+    options: ApplyOptions
+  ): Promise<ToolResponse> {
+    if (code === null) {
+      throw new ApplyError("NO_CODE_BLOCK", "The refined response contains no code block to write. Nothing was written.");
+    }
+    const result = await this.componentWriter!.apply(snapshot, code, options);
+    return { content: [{ type: "text" as const, text: formatApplyResult(result) }] };
+  }
+
+  private formatDiff(text: string, code: string | null, fileContent: string, file: ProjectFile): ToolResponse {
+    if (code === null) {
+      return {
+        content: [{ type: "text" as const, text: `The refined response contains no code block to diff, so here it is in full:\n\n${text}` }],
+      };
+    }
+
+    // Relative paths keep the diff readable and usable with `git apply` from the root the file was read from
+    const displayPath = path.relative(file.root, file.path);
+    const newContent = code.endsWith("\n") ? code : `${code}\n`;
+    const diff = createUnifiedDiff(fileContent, newContent, { oldPath: displayPath, newPath: displayPath });
+    if (!diff) {
+      return { content: [{ type: "text" as const, text: `The refined component is identical to ${displayPath}.` }] };
+    }
+
+    const { added, removed } = diffStats(diff);
+    const summary = formatChangeSummary(summarizeChanges(fileContent, code));
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Refined ${displayPath} (+${added} -${removed}):\n${summary}\n\n\`\`\`diff\n${diff}\`\`\``,
+        },
+      ],
+    };
+  }
 }
@@ -0,0 +1,208 @@
+import { hostname, networkInterfaces } from "node:os";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { Logger } from "../logger.js";
+import { SseServerTransport } from "./sse-transport.js";
+
+export interface HttpSessionServerConfig {
+  host: string;
+  port: number;
+  createServer: () => McpServer;
+  logger: Logger;
+}
+
+interface Session {
+  server: McpServer;
+  transport: Transport;
+  kind: "streamable" | "sse";
+}
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+
+export class HttpSessionServer {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly createServer: () => McpServer;
+  private readonly logger: Logger;
+  private readonly sessions = new Map<string, Session>();
+  private server: ReturnType<typeof Bun.serve> | null = null;
+  private allowedHosts: string[] = [];
+  private allowedOrigins: string[] = [];
+
+  constructor(config: HttpSessionServerConfig) {
+    this.host = config.host;
+    this.port = config.port;
+    this.createServer = config.createServer;
+    this.logger = config.logger;
+  }
+
+  async start(): Promise<number> {
+    this.server = Bun.serve({
+      port: this.port,
+      hostname: this.host,
+      // SSE streams stay open while idle; Bun's default would cut them after 10s
+      idleTimeout: 0,
+      fetch: (req) => this.handleRequest(req),
+    });
+
+    const port = this.server.port!;
+    this.allowedHosts = allowedHostsFor(this.host, port);
+    this.allowedOrigins = this.allowedHosts.map((host) => `http://${host}`);
+    this.logger.info(`HTTP transport listening on http://${this.host}:${port}${MCP_PATH} (SSE fallback: ${SSE_PATH})`);
+    return port;
+  }
+
+  getPort(): number | null {
+    return this.server?.port ?? null;
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async close(): Promise<void> {
+    const sessions = [...this.sessions.entries()];
+    this.sessions.clear();
+
+    for (const [sessionId, session] of sessions) {
+      try {
+        await session.server.close();
+      } catch (error) {
+        this.logger.error(`Error closing session ${sessionId}:`, error);
+      }
+    }
+
+    if (this.server) {
+      this.server.stop(true);
+      this.server = null;
+    }
+  }
+
+  private async handleRequest(req: Request): Promise<Response> {
+    const { pathname } = new URL(req.url);
+
+    // A web page must not reach the tools (and spend the API key) through DNS rebinding or a cross-origin request
+    const host = req.headers.get("host");
+    if (!host || !this.allowedHosts.includes(host)) {
+      this.logger.warn(`Rejected ${req.method} ${pathname} with Host ${host}`);
+      return jsonRpcError(403, -32000, `Invalid Host header: ${host}`);
+    }
+    const origin = req.headers.get("origin");
+    if (origin && !this.allowedOrigins.includes(origin)) {
+      this.logger.warn(`Rejected ${req.method} ${pathname} from origin ${origin}`);
+      return jsonRpcError(403, -32000, `Invalid Origin header: ${origin}`);
+    }
+
+    try {
+      if (pathname === MCP_PATH) return await this.handleStreamable(req);
+      if (pathname === SSE_PATH && req.method === "GET") return await this.openSseSession();
+      if (pathname === MESSAGES_PATH && req.method === "POST") return await this.handleSseMessage(req);
+    } catch (error) {
+      this.logger.error(`HTTP transport error on ${req.method} ${pathname}:`, error);
+      return jsonRpcError(500, -32603, "Internal server error");
+    }
+
+    return new Response("Not found", { status: 404 });
+  }
+
+  private async handleStreamable(req: Request): Promise<Response> {
+    const sessionId = req.headers.get("mcp-session-id");
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.kind !== "streamable") {
+        return jsonRpcError(404, -32001, "Session not found");
+      }
+      return (session.transport as WebStandardStreamableHTTPServerTransport).handleRequest(req);
+    }
+
+    if (req.method !== "POST") {
+      return jsonRpcError(400, -32000, "Bad Request: No valid session ID provided");
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonRpcError(400, -32700, "Parse error");
+    }
+
+    if (!isInitializeRequest(body)) {
+      return jsonRpcError(400, -32000, "Bad Request: No valid session ID provided");
+    }
+
+    const server = this.createServer();
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.allowedHosts,
+      allowedOrigins: this.allowedOrigins,
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport, kind: "streamable" });
+        this.logger.info(`Session ${id} opened (streamable HTTP)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) this.removeSession(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    return transport.handleRequest(req, { parsedBody: body });
+  }
+
+  private async openSseSession(): Promise<Response> {
+    const server = this.createServer();
+    const transport = new SseServerTransport(MESSAGES_PATH);
+    const response = transport.createResponse();
+
+    this.sessions.set(transport.sessionId, { server, transport, kind: "sse" });
+    transport.onclose = () => this.removeSession(transport.sessionId);
+
+    await server.connect(transport);
+    this.logger.info(`Session ${transport.sessionId} opened (SSE)`);
+    return response;
+  }
+
+  private async handleSseMessage(req: Request): Promise<Response> {
+    const sessionId = new URL(req.url).searchParams.get("sessionId");
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== "sse") {
+      return new Response("Session not found", { status: 404 });
+    }
+    return (session.transport as SseServerTransport).handlePostMessage(req);
+  }
+
+  private removeSession(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      this.logger.info(`Session ${sessionId} closed`);
+    }
+  }
+}
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/** Host header values that address this server: the bound host, or every local address for a wildcard bind. */
+function allowedHostsFor(host: string, port: number): string[] {
+  const formatAddress = (address: string) => (address.includes(":") && !address.startsWith("[") ? `[${address}]` : address);
+  let hosts: string[];
+  if (["0.0.0.0", "::", "[::]"].includes(host)) {
+    const addresses = Object.values(networkInterfaces()).flatMap((entries) => (entries ?? []).map((entry) => entry.address));
+    hosts = [...LOOPBACK_HOSTS, hostname(), ...addresses.map(formatAddress)];
+  } else if (LOOPBACK_HOSTS.includes(formatAddress(host))) {
+    hosts = LOOPBACK_HOSTS;
+  } else {
+    hosts = [formatAddress(host)];
+  }
+  return [...new Set(hosts)].map((name) => `${name}:${port}`);
+}
+
+function jsonRpcError(status: number, code: number, message: string): Response {
+  return new Response(
+    JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }),
+    { status, headers: { "Content-Type": "application/json" } }
+  );
+}
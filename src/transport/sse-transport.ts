@@ -0,0 +1,109 @@
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { JSONRPCMessageSchema, type JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+const MAX_MESSAGE_SIZE = 4 * 1_048_576;
+
+/**
+ * Legacy HTTP+SSE transport (protocol 2024-11-05) on top of Web Standard
+ * Request/Response, so it can be served from Bun.serve next to Streamable HTTP.
+ */
+export class SseServerTransport implements Transport {
+  readonly sessionId: string;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private readonly endpoint: string;
+  private readonly encoder = new TextEncoder();
+  private controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  private closed = false;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint;
+    this.sessionId = crypto.randomUUID();
+  }
+
+  /** Builds the long-lived event stream response for the initial GET. */
+  createResponse(): Response {
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.controller = controller;
+        const separator = this.endpoint.includes("?") ? "&" : "?";
+        this.write(`event: endpoint\ndata: ${this.endpoint}${separator}sessionId=${this.sessionId}\n\n`);
+      },
+      cancel: () => {
+        this.controller = null;
+        this.markClosed();
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  async handlePostMessage(req: Request): Promise<Response> {
+    if (!this.controller) {
+      return new Response("SSE connection not established", { status: 500 });
+    }
+
+    const contentType = req.headers.get("content-type") ?? "";
+    if (!contentType.includes("application/json")) {
+      return new Response(`Unsupported content-type: ${contentType}`, { status: 415 });
+    }
+
+    const contentLength = Number(req.headers.get("content-length") ?? 0);
+    if (contentLength > MAX_MESSAGE_SIZE) {
+      return new Response("Payload too large", { status: 413 });
+    }
+
+    let message: JSONRPCMessage;
+    try {
+      message = JSONRPCMessageSchema.parse(await req.json());
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      return new Response("Invalid message", { status: 400 });
+    }
+
+    this.onmessage?.(message);
+    return new Response("Accepted", { status: 202 });
+  }
+
+  async start(): Promise<void> {
+    // The stream is opened by createResponse(); nothing to do here.
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.controller) {
+      throw new Error("Not connected");
+    }
+    this.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  async close(): Promise<void> {
+    if (this.controller) {
+      try {
+        this.controller.close();
+      } catch {
+        // already closed by the client
+      }
+      this.controller = null;
+    }
+    this.markClosed();
+  }
+
+  private write(chunk: string): void {
+    this.controller?.enqueue(this.encoder.encode(chunk));
+  }
+
+  private markClosed(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose?.();
+  }
+}